@@ -4,10 +4,11 @@
  * Provides the overall structure and background styling for the Agent SDK interface.
  */
 
-import React from "react";
+import React, { useState } from "react";
 import styled from "styled-components";
 import AgentInterface from "./components/AgentInterface";
 import Header from "./components/Header";
+import { AgentClient } from "./services/agentService";
 
 /**
  * Main application container with full height layout
@@ -35,11 +36,16 @@ const MainContent = styled.main`
  * @returns JSX.Element - Application layout with header and agent interface
  */
 function App() {
+  const [agentClient, setAgentClient] = useState<AgentClient | null>(null);
+
   return (
     <AppContainer>
-      <Header />
+      <Header agentClient={agentClient} />
       <MainContent>
-        <AgentInterface />
+        <AgentInterface
+          agentClient={agentClient}
+          onAgentClientChange={setAgentClient}
+        />
       </MainContent>
     </AppContainer>
   );
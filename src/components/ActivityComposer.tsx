@@ -0,0 +1,219 @@
+/**
+ * Activity Composer Component
+ *
+ * Sends activities other than plain text messages: `event` activities with a name
+ * and JSON value, as raised by a host page, `invoke` activities, and `message`
+ * activities carrying a `value` or `channelData`. The agent's replies show up in
+ * the response panel like any other turn.
+ */
+
+import React, { useState } from "react";
+import styled from "styled-components";
+import { OutgoingActivity } from "../types/agent";
+import { parseJsonInput } from "../services/outgoingActivity";
+
+const Composer = styled.details`
+  background: white;
+  border: 1px solid #dee2e6;
+  border-radius: 8px;
+  padding: 12px 16px;
+`;
+
+const ComposerSummary = styled.summary`
+  cursor: pointer;
+  color: #495057;
+  font-size: 0.9rem;
+  font-weight: 600;
+`;
+
+const ComposerForm = styled.form`
+  display: flex;
+  flex-direction: column;
+  gap: 10px;
+  margin-top: 12px;
+`;
+
+const FieldLabel = styled.label`
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+  font-size: 0.8rem;
+  font-weight: 600;
+  color: #495057;
+`;
+
+const FieldInput = styled.input`
+  padding: 8px;
+  border: 1px solid #ced4da;
+  border-radius: 4px;
+  font-size: 0.9rem;
+`;
+
+const FieldSelect = styled.select`
+  padding: 8px;
+  border: 1px solid #ced4da;
+  border-radius: 4px;
+  font-size: 0.9rem;
+`;
+
+const JsonInput = styled.textarea`
+  padding: 8px;
+  border: 1px solid #ced4da;
+  border-radius: 4px;
+  min-height: 70px;
+  font-family: monospace;
+  font-size: 0.8rem;
+  resize: vertical;
+`;
+
+const SendButton = styled.button`
+  align-self: flex-start;
+  background: #667eea;
+  color: white;
+  border: none;
+  padding: 8px 16px;
+  border-radius: 6px;
+  font-size: 0.9rem;
+  font-weight: 600;
+  cursor: pointer;
+
+  &:disabled {
+    background: #adb5bd;
+    cursor: not-allowed;
+  }
+`;
+
+const ComposerError = styled.div`
+  background: #f8d7da;
+  color: #721c24;
+  padding: 8px 12px;
+  border-radius: 6px;
+  border: 1px solid #f5c6cb;
+  font-size: 0.85rem;
+`;
+
+type ComposerActivityType = "event" | "message" | "invoke";
+
+/**
+ * Props interface for ActivityComposer component
+ */
+interface ActivityComposerProps {
+  onSend: (activity: OutgoingActivity) => void; // Callback with the composed activity
+  disabled: boolean; // Whether sending is disabled
+}
+
+/**
+ * ActivityComposer component for sending event, invoke, and structured message activities
+ * @param props - Component props containing the send callback
+ * @returns JSX.Element - Collapsible activity composer
+ */
+const ActivityComposer: React.FC<ActivityComposerProps> = ({
+  onSend,
+  disabled,
+}) => {
+  const [type, setType] = useState<ComposerActivityType>("event");
+  const [name, setName] = useState<string>("");
+  const [text, setText] = useState<string>("");
+  const [value, setValue] = useState<string>("");
+  const [channelData, setChannelData] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  /**
+   * Builds the activity from the form and sends it
+   * @param e - Form event
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const activity: OutgoingActivity = {
+        type,
+        value: parseJsonInput("Value", value),
+        channelData: parseJsonInput("Channel data", channelData),
+      };
+      if (type === "message") {
+        activity.text = text;
+      } else {
+        activity.name = name.trim();
+      }
+
+      setError("");
+      onSend(activity);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const canSend =
+    !disabled &&
+    (type === "message" ? !!(text.trim() || value.trim()) : !!name.trim());
+
+  return (
+    <Composer>
+      <ComposerSummary>
+        🧩 Send event, invoke, or structured message
+      </ComposerSummary>
+      <ComposerForm onSubmit={handleSubmit}>
+        <FieldLabel>
+          Activity type
+          <FieldSelect
+            value={type}
+            onChange={(e) => setType(e.target.value as ComposerActivityType)}
+          >
+            <option value="event">event</option>
+            <option value="invoke">invoke</option>
+            <option value="message">message</option>
+          </FieldSelect>
+        </FieldLabel>
+
+        {type === "message" ? (
+          <FieldLabel>
+            Text
+            <FieldInput
+              value={text}
+              placeholder="Optional message text"
+              onChange={(e) => setText(e.target.value)}
+            />
+          </FieldLabel>
+        ) : (
+          <FieldLabel>
+            Name
+            <FieldInput
+              value={name}
+              placeholder={
+                type === "event"
+                  ? "e.g. pvaSetContext"
+                  : "e.g. adaptiveCard/action"
+              }
+              onChange={(e) => setName(e.target.value)}
+            />
+          </FieldLabel>
+        )}
+
+        <FieldLabel>
+          Value (JSON)
+          <JsonInput
+            value={value}
+            placeholder='{ "key": "value" }'
+            onChange={(e) => setValue(e.target.value)}
+          />
+        </FieldLabel>
+        <FieldLabel>
+          Channel data (JSON)
+          <JsonInput
+            value={channelData}
+            placeholder="Optional"
+            onChange={(e) => setChannelData(e.target.value)}
+          />
+        </FieldLabel>
+
+        {error && <ComposerError>{error}</ComposerError>}
+        <SendButton type="submit" disabled={!canSend}>
+          Send {type}
+        </SendButton>
+      </ComposerForm>
+    </Composer>
+  );
+};
+
+export default ActivityComposer;
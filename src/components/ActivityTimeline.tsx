@@ -0,0 +1,126 @@
+/**
+ * Activity Timeline Component
+ *
+ * Lists every activity the agent sent during a turn in arrival order, including
+ * typing indicators, events, traces and end-of-conversation activities that the
+ * response summary leaves out, with the arrival time and the offset from the
+ * start of the turn.
+ */
+
+import React from "react";
+import styled from "styled-components";
+import { AgentResponse } from "../types/agent";
+import { createActivityTimeline } from "../services/activitySummary";
+
+const Timeline = styled.details`
+  margin-top: 8px;
+  font-size: 0.8rem;
+  font-weight: 400;
+  color: #495057;
+`;
+
+const TimelineSummary = styled.summary`
+  cursor: pointer;
+  color: #6c757d;
+  font-weight: 600;
+`;
+
+const TimelineTable = styled.table`
+  width: 100%;
+  margin-top: 6px;
+  border-collapse: collapse;
+
+  th,
+  td {
+    padding: 4px 8px;
+    border-bottom: 1px solid #e9ecef;
+    text-align: left;
+    white-space: nowrap;
+  }
+
+  th {
+    background: #f8f9fa;
+    color: #6c757d;
+  }
+`;
+
+const TypeBadge = styled.span`
+  padding: 1px 8px;
+  border-radius: 10px;
+  font-family: monospace;
+  color: ${({ type }: { type: string }) =>
+    type === "message" ? "#155724" : type === "typing" ? "#6c757d" : "#004085"};
+  background: ${({ type }: { type: string }) =>
+    type === "message" ? "#d4edda" : type === "typing" ? "#e9ecef" : "#cce5ff"};
+`;
+
+/**
+ * Props interface for ActivityTimeline component
+ */
+interface ActivityTimelineProps {
+  response: AgentResponse; // Response whose activities are listed
+}
+
+/**
+ * Formats the offset of an activity from the start of the turn
+ * @param offsetMs - Offset in milliseconds
+ * @returns string - Offset such as "+1.25s"
+ */
+const formatOffset = (offsetMs: number): string =>
+  `${offsetMs < 0 ? "-" : "+"}${(Math.abs(offsetMs) / 1000).toFixed(2)}s`;
+
+/**
+ * ActivityTimeline component showing every activity of a turn
+ * @param props - Component props containing the response
+ * @returns JSX.Element | null - Collapsible timeline, or nothing without activities
+ */
+const ActivityTimeline: React.FC<ActivityTimelineProps> = ({ response }) => {
+  // Turns recorded before timelines existed are rebuilt from the activity timestamps
+  const timeline =
+    response.metadata?.timeline ||
+    createActivityTimeline(
+      response.metadata?.fullActivities || [],
+      response.metadata?.startTime
+    );
+
+  if (timeline.length === 0) return null;
+
+  return (
+    <Timeline>
+      <TimelineSummary>
+        🕒 Activity timeline ({timeline.length}{" "}
+        {timeline.length === 1 ? "activity" : "activities"})
+      </TimelineSummary>
+      <TimelineTable>
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Offset</th>
+            <th>Type</th>
+            <th>Name</th>
+            <th>Time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {timeline.map((entry, index) => (
+            <tr key={index}>
+              <td>{index + 1}</td>
+              <td>{formatOffset(entry.offsetMs)}</td>
+              <td>
+                <TypeBadge type={entry.type}>{entry.type}</TypeBadge>
+              </td>
+              <td>{entry.name || "—"}</td>
+              <td>
+                {entry.timestamp
+                  ? new Date(entry.timestamp).toLocaleTimeString()
+                  : "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </TimelineTable>
+    </Timeline>
+  );
+};
+
+export default ActivityTimeline;
@@ -3,11 +3,31 @@
  *
  * Renders Adaptive Cards using the official adaptivecards library.
  * Provides error handling, fallback display, and action handling for interactive cards.
- * Supports custom styling and host configuration for consistent appearance.
+ * Cards are rendered with the host config of the host they are previewed in.
  */
 
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useMemo, useRef } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
 import styled from "styled-components";
+import ReactMarkdown from "react-markdown";
+import { ContentPolicy } from "../types/agent";
+import {
+  applyCardImagePolicy,
+  getLinkTarget,
+  isAllowedUrl,
+} from "../services/contentPolicy";
+import {
+  copilotStudioHostConfig,
+  getHostColors,
+} from "../services/hostConfigs";
+import {
+  cardMarkdownElements,
+  findUnsafeMarkdownUrls,
+  sanitizeHtml,
+  sanitizeMarkdownUrl,
+} from "../services/htmlSanitizer";
+import RemoteImageNotice from "./RemoteImageNotice";
+import RemovedContentNotice from "./RemovedContentNotice";
 
 // Use require for adaptivecards to avoid TypeScript issues
 const AdaptiveCards = require("adaptivecards");
@@ -28,7 +48,6 @@ const AdaptiveCardWrapper = styled.div`
   .ac-textBlock {
     margin: 4px 0;
     line-height: 1.4;
-    color: #323130;
   }
 
   .ac-columnSet {
@@ -47,14 +66,12 @@ const AdaptiveCardWrapper = styled.div`
 
   .ac-factset .ac-fact-title {
     font-weight: 600;
-    color: #323130;
     padding: 4px 8px 4px 0;
     vertical-align: top;
     white-space: nowrap;
   }
 
   .ac-factset .ac-fact-value {
-    color: #323130;
     padding: 4px 0;
     word-wrap: break-word;
   }
@@ -67,19 +84,17 @@ const AdaptiveCardWrapper = styled.div`
   }
 
   .ac-pushButton {
-    background: #0078d4;
-    color: white;
     border: none;
     padding: 6px 12px;
     border-radius: 2px;
     cursor: pointer;
     font-size: 14px;
     font-weight: 400;
-    transition: background 0.2s ease;
+    transition: filter 0.2s ease;
     min-height: 32px;
 
     &:hover {
-      background: #106ebe;
+      filter: brightness(0.9);
     }
   }
 
@@ -104,6 +119,21 @@ const AdaptiveCardWrapper = styled.div`
   }
 `;
 
+// Surface in the host's card background; buttons use the host's accent color
+const CardSurface = styled.div<{ background: string; accent: string }>`
+  background: ${(props) => props.background};
+  border-radius: 4px;
+
+  [data-href] {
+    cursor: pointer;
+  }
+
+  .ac-pushButton {
+    background: ${(props) => props.accent};
+    color: ${(props) => props.background};
+  }
+`;
+
 const CardTitle = styled.div`
   font-size: 0.9rem;
   font-weight: 600;
@@ -142,6 +172,9 @@ interface AdaptiveCardRendererProps {
   cardData: any; // Adaptive card data to render
   index: number; // Card index for unique identification
   onAction?: (action: any) => void; // Optional callback for card actions
+  contentPolicy?: ContentPolicy; // Policy for remote images; all images load without one
+  onOpenUrl?: (url: string) => void; // Callback for Action.OpenUrl and links in card text
+  hostConfig?: object; // Host config JSON; Copilot Studio web chat styling without one
 }
 
 /**
@@ -153,10 +186,31 @@ const AdaptiveCardRenderer: React.FC<AdaptiveCardRendererProps> = ({
   cardData,
   index,
   onAction,
+  contentPolicy,
+  onOpenUrl,
+  hostConfig = copilotStudioHostConfig,
 }) => {
   const cardRef = useRef<HTMLDivElement>(null);
+  // Read the latest callbacks at click time so a new callback does not re-render
+  // the card and discard what the user typed into its inputs
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+  const onOpenUrlRef = useRef(onOpenUrl);
+  onOpenUrlRef.current = onOpenUrl;
+  const contentPolicyRef = useRef(contentPolicy);
+  contentPolicyRef.current = contentPolicy;
   const [renderError, setRenderError] = React.useState<string | null>(null);
   const [fallbackMode, setFallbackMode] = React.useState<boolean>(false);
+  const [imagesAllowed, setImagesAllowed] = React.useState<boolean>(false);
+  const [removedContent, setRemovedContent] = React.useState<string[]>([]);
+
+  // Card content with the images the policy keeps from loading replaced
+  const { card: cardContent, hiddenImages } = useMemo(() => {
+    const content = cardData.content || cardData;
+    return contentPolicy && !imagesAllowed
+      ? applyCardImagePolicy(content, contentPolicy)
+      : { card: content, hiddenImages: 0 };
+  }, [cardData, contentPolicy, imagesAllowed]);
 
   useEffect(() => {
     if (!cardRef.current) return;
@@ -165,90 +219,51 @@ const AdaptiveCardRenderer: React.FC<AdaptiveCardRendererProps> = ({
       // Create adaptive card instance
       const adaptiveCard = new AdaptiveCards.AdaptiveCard();
 
-      // Set host config to match Copilot Studio styling
-      const hostConfig = new AdaptiveCards.HostConfig({
-        spacing: {
-          small: 4,
-          default: 8,
-          medium: 12,
-          large: 16,
-          extraLarge: 20,
-          padding: 12,
-        },
-        separator: {
-          lineThickness: 1,
-          lineColor: "#E1E1E1",
-        },
-        fontFamily:
-          "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
-        fontSizes: {
-          small: 12,
-          default: 14,
-          medium: 16,
-          large: 18,
-          extraLarge: 20,
-        },
-        fontWeights: {
-          lighter: 300,
-          default: 400,
-          bolder: 600,
-        },
-        containerStyles: {
-          default: {
-            backgroundColor: "#FFFFFF",
-            foregroundColors: {
-              default: {
-                default: "#323130",
-                subtle: "#605E5C",
-              },
-              accent: {
-                default: "#0078D4",
-                subtle: "#106EBE",
-              },
-            },
-          },
-        },
-        factSet: {
-          title: {
-            color: "default",
-            size: "default",
-            weight: "bolder",
-          },
-          value: {
-            color: "default",
-            size: "default",
-            weight: "default",
-          },
-        },
-        actions: {
-          maxActions: 5,
-          spacing: "default",
-          buttonSpacing: 8,
-          showCard: {
-            actionMode: "inline",
-            inlineTopMargin: 8,
-          },
-          actionsOrientation: "horizontal",
-          actionAlignment: "left",
-        },
-      });
-
-      adaptiveCard.hostConfig = hostConfig;
+      // Apply the chosen host config
+      adaptiveCard.hostConfig = new AdaptiveCards.HostConfig(hostConfig);
 
       // Handle action execution
       adaptiveCard.onExecuteAction = (action: any) => {
-        if (onAction) {
-          onAction(action);
+        if (
+          action.getJsonTypeName() === "Action.OpenUrl" &&
+          onOpenUrlRef.current
+        ) {
+          onOpenUrlRef.current(action.url);
+          return;
+        }
+        if (onActionRef.current) {
+          onActionRef.current(action);
         }
       };
 
-      // Get the card content
-      let cardContent = cardData;
-
-      // If cardData has a 'content' property, use that
-      if (cardData.content) {
-        cardContent = cardData.content;
-      }
+      // Card text is markdown; render the subset cards support, then sanitize it.
+      // The hook is global, so it is set again right before each card renders.
+      const removed: string[] = [];
+      const policy = onOpenUrlRef.current && contentPolicyRef.current;
+      AdaptiveCards.AdaptiveCard.onProcessMarkdown = (
+        text: string,
+        result: any
+      ) => {
+        const sanitized = sanitizeHtml(
+          renderToStaticMarkup(
+            <ReactMarkdown
+              allowedElements={cardMarkdownElements}
+              unwrapDisallowed
+              urlTransform={sanitizeMarkdownUrl}
+            >
+              {text}
+            </ReactMarkdown>
+          ),
+          {
+            needsConfirmation: policy
+              ? (href) => !isAllowedUrl(href, policy)
+              : undefined,
+          }
+        );
+        removed.push(...findUnsafeMarkdownUrls(text), ...sanitized.removed);
+        result.outputHtml = sanitized.html;
+        result.didProcess = true;
+      };
 
       // Parse the card
       adaptiveCard.parse(cardContent);
@@ -261,6 +276,7 @@ const AdaptiveCardRenderer: React.FC<AdaptiveCardRendererProps> = ({
 
       if (renderedCard) {
         cardRef.current.appendChild(renderedCard);
+        setRemovedContent(removed);
         setRenderError(null);
         setFallbackMode(false);
       } else {
@@ -271,7 +287,36 @@ const AdaptiveCardRenderer: React.FC<AdaptiveCardRendererProps> = ({
       setRenderError(error.message || "Unknown rendering error");
       setFallbackMode(true);
     }
-  }, [cardData, onAction]);
+  }, [cardContent, hostConfig]);
+
+  /**
+   * Sends clicks on links in card text, such as markdown links in a TextBlock,
+   * through the link policy instead of navigating
+   * @param event - Click event from the card
+   */
+  const handleCardClick = (event: React.SyntheticEvent<HTMLDivElement>) => {
+    const href = getLinkTarget(event.target as Element);
+    if (href === null || !onOpenUrlRef.current) return;
+
+    event.preventDefault();
+    onOpenUrlRef.current(href);
+  };
+
+  /**
+   * Opens links in card text that need confirmation with Enter, which the browser
+   * only does for links with an href
+   * @param event - Key event from the card
+   */
+  const handleCardKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (
+      event.key === "Enter" &&
+      (event.target as Element).hasAttribute("data-href")
+    ) {
+      handleCardClick(event);
+    }
+  };
+
+  const hostColors = getHostColors(hostConfig);
 
   /**
    * Gets display name for the adaptive card
@@ -298,7 +343,21 @@ const AdaptiveCardRenderer: React.FC<AdaptiveCardRendererProps> = ({
   return (
     <AdaptiveCardWrapper>
       <CardTitle>🃏 {getCardName()}</CardTitle>
-      <div ref={cardRef} />
+      <RemovedContentNotice removed={removedContent} />
+      {contentPolicy && (
+        <RemoteImageNotice
+          hiddenImages={hiddenImages}
+          mode={contentPolicy.remoteImages}
+          onLoadImages={() => setImagesAllowed(true)}
+        />
+      )}
+      <CardSurface
+        ref={cardRef}
+        onClick={handleCardClick}
+        onKeyDown={handleCardKeyDown}
+        background={hostColors.background}
+        accent={hostColors.accent}
+      />
     </AdaptiveCardWrapper>
   );
 };
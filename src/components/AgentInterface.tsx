@@ -11,16 +11,90 @@
  * - Interactive icons and modern UI
  */
 
-import React, { useState, useEffect } from "react";
+import React, {
+  useState,
+  useEffect,
+  useMemo,
+  useRef,
+  useCallback,
+} from "react";
 import styled from "styled-components";
 import { Oval } from "react-loader-spinner";
 import ConfigurationForm from "./ConfigurationForm";
 import MessageInterface from "./MessageInterface";
+import ActivityComposer from "./ActivityComposer";
+import ActivityTimeline from "./ActivityTimeline";
+import AttachmentList from "./AttachmentList";
 import ResponseDisplay from "./ResponseDisplay";
+import TypingIndicator from "./TypingIndicator";
 import AdaptiveCardRenderer from "./AdaptiveCardRenderer";
+import AuthStatusPanel from "./AuthStatusPanel";
+import ConversationTabs from "./ConversationTabs";
+import SessionList from "./SessionList";
+import RegressionPanel, { RegressionTarget } from "./RegressionPanel";
+import BatchRunPanel, { BatchRunSettings } from "./BatchRunPanel";
+import ContentPolicyForm from "./ContentPolicyForm";
+import HostConfigPicker from "./HostConfigPicker";
+import LinkConfirmation from "./LinkConfirmation";
 import Modal from "./Modal";
-import { AgentConfig, AgentResponse } from "../types/agent";
+import {
+  ActivityAttachment,
+  AgentConfig,
+  BatchResult,
+  BatchUtterance,
+  CardExecuteAction,
+  CardHostSettings,
+  ConnectionState,
+  ContentPolicy,
+  Conversation,
+  OutgoingActivity,
+  RegressionBaseline,
+  RegressionRunReport,
+  SessionRetention,
+  StoredSession,
+} from "../types/agent";
 import { createAgentClient, AgentClient } from "../services/agentService";
+import {
+  ConversationManager,
+  ConversationManagerState,
+} from "../services/conversationManager";
+import {
+  applyRetention,
+  clearSessions,
+  deleteBaseline,
+  deleteSession,
+  loadBaselines,
+  loadSessionRetention,
+  loadSessions,
+  persistConversations,
+  saveBaseline,
+  saveConversation,
+  saveSessionRetention,
+  toConversation,
+} from "../services/sessionStore";
+import { createBaseline, runRegression } from "../services/regressionRunner";
+import { runBatch } from "../services/batchRunner";
+import { createMessageActivity } from "../services/outgoingActivity";
+import { scriptedScenarios } from "../scenarios";
+import { downloadTranscript, parseTranscript } from "../services/transcript";
+import {
+  loadCardHostSettings,
+  resolveHostConfig,
+  saveCardHostSettings,
+} from "../services/hostConfigs";
+import {
+  getLinkHost,
+  isAllowedUrl,
+  isNavigableUrl,
+  loadContentPolicy,
+  openInNewTab,
+  saveContentPolicy,
+} from "../services/contentPolicy";
+import {
+  consumePendingRedirectState,
+  PendingRedirectState,
+  savePendingRedirectState,
+} from "../services/redirectState";
 
 const Container = styled.div`
   width: 100%;
@@ -57,6 +131,11 @@ const ConfigButton = styled.button`
   }
 `;
 
+const ControlButtons = styled.div`
+  display: flex;
+  gap: 10px;
+`;
+
 const ChatGrid = styled.div`
   display: grid;
   grid-template-columns: 1fr 1fr 480px; /* Increased conversation history width from 400px to 480px */
@@ -99,6 +178,32 @@ const Icon = styled.span`
   font-size: 1.3rem;
 `;
 
+const connectionStateStyles: Record<
+  ConnectionState,
+  { label: string; color: string; background: string }
+> = {
+  idle: { label: "⚪ Idle", color: "#6c757d", background: "#e9ecef" },
+  connecting: {
+    label: "🔄 Connecting…",
+    color: "#856404",
+    background: "#fff3cd",
+  },
+  connected: { label: "🟢 Connected", color: "#155724", background: "#d4edda" },
+  expired: { label: "⌛ Expired", color: "#721c24", background: "#f8d7da" },
+};
+
+const ConnectionBadge = styled.span<{ state: ConnectionState }>`
+  margin-left: auto;
+  padding: 4px 10px;
+  border-radius: 12px;
+  font-size: 0.75rem;
+  font-weight: 600;
+  color: ${({ state }: { state: ConnectionState }) =>
+    connectionStateStyles[state].color};
+  background: ${({ state }: { state: ConnectionState }) =>
+    connectionStateStyles[state].background};
+`;
+
 const LoadingContainer = styled.div`
   display: flex;
   justify-content: center;
@@ -115,6 +220,32 @@ const ConversationHistory = styled.div`
   overflow-y: auto;
 `;
 
+const HistoryActions = styled.div`
+  margin-left: auto;
+  display: flex;
+  gap: 8px;
+`;
+
+const HistoryButton = styled.button`
+  background: white;
+  border: 1px solid #dee2e6;
+  color: #495057;
+  padding: 4px 10px;
+  border-radius: 6px;
+  font-size: 0.8rem;
+  font-weight: 500;
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    background: #e9ecef;
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
 const ConversationItem = styled.div`
   margin-bottom: 20px;
   padding: 15px;
@@ -172,6 +303,32 @@ const MessageContent = styled.div`
   }
 `;
 
+const CardHostBar = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  margin: -12px 0 12px 0;
+`;
+
+const StartConversationBar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  font-size: 0.85rem;
+  color: #495057;
+`;
+
+const ActivityPayload = styled.pre`
+  margin: 6px 0 0 0;
+  padding: 6px 8px;
+  background: #f8f9fa;
+  border: 1px solid #e9ecef;
+  border-radius: 4px;
+  font-size: 0.75rem;
+  font-weight: 400;
+  white-space: pre-wrap;
+  word-break: break-word;
+`;
+
 const MessageTimestamp = styled.div`
   font-size: 0.8rem;
   color: #adb5bd;
@@ -471,7 +628,23 @@ const ToggleHelperText = styled.div`
   font-style: italic;
 `;
 
-const AgentInterface: React.FC = () => {
+/**
+ * Props interface for AgentInterface component
+ */
+interface AgentInterfaceProps {
+  agentClient: AgentClient | null; // Agent client shared with the header
+  onAgentClientChange: (client: AgentClient) => void; // Callback when a new client is created
+}
+
+/**
+ * AgentInterface component providing the chat, response, and history panels
+ * @param props - Component props containing the shared agent client
+ * @returns JSX.Element - Agent interaction interface
+ */
+const AgentInterface: React.FC<AgentInterfaceProps> = ({
+  agentClient,
+  onAgentClientChange: setAgentClient,
+}) => {
   const [config, setConfig] = useState<AgentConfig>({
     clientId: "",
     tenantId: "",
@@ -479,21 +652,52 @@ const AgentInterface: React.FC = () => {
     environmentId: "",
   });
 
-  const [message, setMessage] = useState<string>("");
-  const [response, setResponse] = useState<AgentResponse | null>(null);
-  const [loading, setLoading] = useState<boolean>(false);
+  const [conversationManager] = useState(() => new ConversationManager());
+  const [conversationState, setConversationState] =
+    useState<ConversationManagerState>(() => conversationManager.getState());
+  const [draftMessage, setDraftMessage] = useState<string>("");
+  const [newConversationLocale, setNewConversationLocale] =
+    useState<string>("");
+  const transcriptInputRef = useRef<HTMLInputElement>(null);
   const [error, setError] = useState<string>("");
   const [continueConversation, setContinueConversation] =
     useState<boolean>(false);
-  const [agentClient, setAgentClient] = useState<AgentClient | null>(null);
-  const [conversationHistory, setConversationHistory] = useState<
-    Array<{
-      message: string;
-      response: AgentResponse;
-      timestamp: string;
-    }>
-  >([]);
+  const [emitStartEvent, setEmitStartEvent] = useState<boolean>(true);
   const [showConfigModal, setShowConfigModal] = useState<boolean>(false);
+  const [showSessionsModal, setShowSessionsModal] = useState<boolean>(false);
+  const [storedSessions, setStoredSessions] = useState<StoredSession[]>([]);
+  const [sessionRetention, setSessionRetention] = useState<SessionRetention>(
+    () => loadSessionRetention()
+  );
+  const [contentPolicy, setContentPolicy] = useState<ContentPolicy>(() =>
+    loadContentPolicy()
+  );
+  const [showContentPolicyModal, setShowContentPolicyModal] =
+    useState<boolean>(false);
+  const [cardHostSettings, setCardHostSettings] = useState<CardHostSettings>(
+    () => loadCardHostSettings()
+  );
+  // Every card re-renders when the host config changes, and only then
+  const hostConfig = useMemo(
+    () => resolveHostConfig(cardHostSettings),
+    [cardHostSettings]
+  );
+  // Link outside the allowlist waiting for the user's confirmation
+  const [pendingLink, setPendingLink] = useState<string | null>(null);
+  const [connectionState, setConnectionState] =
+    useState<ConnectionState>("idle");
+  const [showRegressionModal, setShowRegressionModal] =
+    useState<boolean>(false);
+  const [baselines, setBaselines] = useState<RegressionBaseline[]>([]);
+  const [regressionReport, setRegressionReport] =
+    useState<RegressionRunReport | null>(null);
+  const [regressionRunning, setRegressionRunning] = useState<boolean>(false);
+  const regressionAbortRef = useRef<AbortController | null>(null);
+  const [showBatchModal, setShowBatchModal] = useState<boolean>(false);
+  const [batchResults, setBatchResults] = useState<BatchResult[]>([]);
+  const [batchTotal, setBatchTotal] = useState<number>(0);
+  const [batchRunning, setBatchRunning] = useState<boolean>(false);
+  const batchAbortRef = useRef<AbortController | null>(null);
   const [showErrorPopup, setShowErrorPopup] = useState<boolean>(false);
   const [errorDetails, setErrorDetails] = useState<{
     title: string;
@@ -501,6 +705,166 @@ const AgentInterface: React.FC = () => {
     canNavigateToConfig: boolean;
   } | null>(null);
 
+  const activeConversation =
+    conversationState.conversations.find(
+      (conversation) =>
+        conversation.id === conversationState.activeConversationId
+    ) || conversationState.conversations[0];
+  const {
+    history: conversationHistory,
+    response,
+    lastMessage: message,
+    isPending: loading,
+  } = activeConversation;
+
+  // Message being sent, saved with the UI state if sign-in redirects away from the page
+  const pendingMessageRef = useRef<string>("");
+  // Saves the current UI state; replaced on every render so it never sees stale state.
+  // The conversation is saved as a session first, which is where it is reopened from.
+  const saveRedirectStateRef = useRef<
+    (clientConfig: AgentConfig, client: AgentClient) => Promise<void>
+  >(async () => {});
+  saveRedirectStateRef.current = async (clientConfig, client) => {
+    if (activeConversation.history.length > 0) {
+      await saveConversation(activeConversation, true);
+    }
+    savePendingRedirectState({
+      config: clientConfig,
+      message: pendingMessageRef.current,
+      continueConversation,
+      conversationKey: activeConversation.id,
+      conversationId: client.getConversationId(activeConversation.id),
+    });
+  };
+
+  /**
+   * Creates an agent client that saves the UI state before any sign-in redirect,
+   * whether it was started by a message, a card action, a batch or the header
+   * @param clientConfig - Configuration of the new client
+   * @returns AgentClient - New agent client
+   */
+  const createClient = useCallback((clientConfig: AgentConfig) => {
+    const client = createAgentClient(clientConfig);
+    client.setBeforeRedirectHandler(() =>
+      saveRedirectStateRef.current(clientConfig, client)
+    );
+    return client;
+  }, []);
+
+  // State restored after a sign-in redirect, waiting for the saved sessions to be reopened
+  const pendingRedirectRef = useRef<{
+    state: PendingRedirectState;
+    client: AgentClient;
+  } | null>(null);
+
+  /**
+   * Switches back to the conversation that was active before a sign-in redirect
+   *
+   * The conversation was saved as a session before the redirect and has just been
+   * reopened with its history; one without turns was not saved, so the
+   * conversation context is resumed in the active tab instead.
+   */
+  const restorePendingConversation = useCallback(() => {
+    const pending = pendingRedirectRef.current;
+    if (!pending) return;
+    pendingRedirectRef.current = null;
+
+    const { state, client } = pending;
+    const targetId = conversationManager
+      .getState()
+      .conversations.some(
+        (conversation) => conversation.id === state.conversationKey
+      )
+      ? state.conversationKey
+      : conversationManager.getActiveConversation().id;
+
+    conversationManager.switchConversation(targetId);
+    if (state.conversationId) {
+      client.resumeConversation(state.conversationId, targetId);
+    }
+  }, [conversationManager]);
+
+  // Restore pending message and UI state after returning from redirect sign-in.
+  // Every client saves this state before it redirects, so its presence is what
+  // tells us a redirect response is waiting to be completed.
+  useEffect(() => {
+    const pendingState = consumePendingRedirectState();
+    if (!pendingState) return;
+
+    setConfig(pendingState.config);
+    setContinueConversation(pendingState.continueConversation);
+    setDraftMessage(pendingState.message);
+
+    // The conversation is restored once the saved sessions are reopened
+    const restoredClient = createClient(pendingState.config);
+    pendingRedirectRef.current = {
+      state: pendingState,
+      client: restoredClient,
+    };
+    setAgentClient(restoredClient);
+
+    restoredClient.completeRedirectSignIn().catch((err) => {
+      setErrorDetails({
+        title: "🔐 Sign-in Failed",
+        message: err instanceof Error ? err.message : "Redirect sign-in failed",
+        canNavigateToConfig: true,
+      });
+      setShowErrorPopup(true);
+    });
+  }, [setAgentClient, conversationManager, createClient]);
+
+  // Follow changes to the open conversations
+  useEffect(() => {
+    return conversationManager.subscribe(setConversationState);
+  }, [conversationManager]);
+
+  // Reopen the sessions that were open before the page was reloaded, then keep saving them
+  useEffect(() => {
+    let cancelled = false;
+    let stopPersisting: () => void = () => {};
+
+    const restoreSessions = async () => {
+      let restored: Conversation[] = [];
+      try {
+        await applyRetention(loadSessionRetention());
+        // Sessions are listed most recent first; reopen them oldest first
+        const openSessions = (await loadSessions())
+          .filter((session) => session.isOpen)
+          .reverse();
+        restored = openSessions.map(toConversation);
+        if (!cancelled) {
+          conversationManager.openConversations(restored);
+        }
+      } catch (err) {
+        console.error("Failed to restore saved sessions:", err);
+      }
+
+      if (!cancelled) {
+        restorePendingConversation();
+        stopPersisting = persistConversations(
+          conversationManager,
+          (err) => console.error("Failed to save session:", err),
+          restored
+        );
+      }
+    };
+
+    restoreSessions();
+    return () => {
+      cancelled = true;
+      stopPersisting();
+    };
+  }, [conversationManager, restorePendingConversation]);
+
+  // Follow the connection state of the current client
+  useEffect(() => {
+    if (!agentClient) {
+      setConnectionState("idle");
+      return;
+    }
+    return agentClient.subscribeToConnectionState(setConnectionState);
+  }, [agentClient]);
+
   // Reset conversation context when toggle changes to false
   useEffect(() => {
     if (!continueConversation && agentClient) {
@@ -518,10 +882,21 @@ const AgentInterface: React.FC = () => {
   } => {
     const missingFields: string[] = [];
 
+    // Scripted agents run locally and need no connection details
+    if (config.transportType === "scripted") {
+      return { isValid: true, missingFields };
+    }
+
     if (!config.clientId.trim()) missingFields.push("Client ID");
     if (!config.tenantId.trim()) missingFields.push("Tenant ID");
-    if (!config.botIdentifier.trim()) missingFields.push("Bot Identifier");
-    if (!config.environmentId.trim()) missingFields.push("Environment ID");
+    if (config.connectionMode === "directConnect") {
+      if (!config.directConnectUrl?.trim()) {
+        missingFields.push("Direct-connect URL");
+      }
+    } else {
+      if (!config.botIdentifier.trim()) missingFields.push("Bot Identifier");
+      if (!config.environmentId.trim()) missingFields.push("Environment ID");
+    }
 
     return {
       isValid: missingFields.length === 0,
@@ -572,11 +947,337 @@ const AgentInterface: React.FC = () => {
     setShowConfigModal(false);
 
     // Create new agent client with updated configuration
-    const newAgentClient = createAgentClient(newConfig);
+    agentClient?.dispose();
+    const newAgentClient = createClient(newConfig);
     setAgentClient(newAgentClient);
 
-    // Clear conversation history when configuration changes
-    setConversationHistory([]);
+    // Pending turns belong to the old client; conversations and their history are kept
+    conversationManager.stopAll();
+  };
+
+  /**
+   * Reloads the saved session list and shows it
+   */
+  const openSessionsModal = async () => {
+    setShowSessionsModal(true);
+    try {
+      setStoredSessions(await loadSessions());
+    } catch (err) {
+      setError(
+        `Failed to load saved sessions: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  };
+
+  /**
+   * Opens a saved session as a tab
+   * @param session - Session to open
+   */
+  const handleOpenSession = (session: StoredSession) => {
+    conversationManager.openConversations([toConversation(session)]);
+    setShowSessionsModal(false);
+  };
+
+  /**
+   * Deletes a saved session, closing its tab if it is open
+   * @param id - Session to delete
+   */
+  const handleDeleteSession = async (id: string) => {
+    conversationManager.closeConversation(id, agentClient);
+    try {
+      await deleteSession(id);
+      setStoredSessions(await loadSessions());
+    } catch (err) {
+      setError(
+        `Failed to delete session: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  };
+
+  /**
+   * Deletes all saved sessions and starts over with one empty conversation
+   */
+  const handleClearAllSessions = async () => {
+    if (!window.confirm("Delete all saved sessions and their history?")) {
+      return;
+    }
+
+    conversationManager.reset();
+    agentClient?.resetConversationContext();
+    try {
+      await clearSessions();
+      setStoredSessions([]);
+    } catch (err) {
+      setError(
+        `Failed to clear sessions: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  };
+
+  /**
+   * Saves new retention limits and removes sessions beyond them
+   * @param retention - New retention limits
+   */
+  const handleRetentionChange = async (retention: SessionRetention) => {
+    setSessionRetention(retention);
+    saveSessionRetention(retention);
+    try {
+      await applyRetention(retention);
+      setStoredSessions(await loadSessions());
+    } catch (err) {
+      console.error("Failed to apply session retention:", err);
+    }
+  };
+
+  /**
+   * Saves the content policy applied to agent output
+   * @param policy - Edited policy
+   */
+  const handleContentPolicySave = (policy: ContentPolicy) => {
+    setContentPolicy(policy);
+    saveContentPolicy(policy);
+    setShowContentPolicyModal(false);
+  };
+
+  /**
+   * Saves the host config cards are rendered with
+   * @param settings - Chosen host config
+   */
+  const handleCardHostChange = (settings: CardHostSettings) => {
+    setCardHostSettings(settings);
+    saveCardHostSettings(settings);
+  };
+
+  /**
+   * Follows a link from a message or card: links to allowed domains open in a new
+   * tab, all others wait for the user's confirmation
+   * @param url - Link target
+   */
+  const handleOpenUrl = (url: string) => {
+    if (isAllowedUrl(url, contentPolicy)) {
+      openInNewTab(url);
+    } else {
+      setPendingLink(url);
+    }
+  };
+
+  /**
+   * Opens the confirmed link, optionally adding its domain to the allowlist first
+   * @param allowDomain - Whether links to the domain should open without confirmation
+   */
+  const handleConfirmLink = (allowDomain: boolean) => {
+    if (!pendingLink) return;
+
+    const host = getLinkHost(pendingLink);
+    if (allowDomain && host) {
+      handleContentPolicySave({
+        ...contentPolicy,
+        allowedDomains: [...contentPolicy.allowedDomains, host],
+      });
+    }
+    openInNewTab(pendingLink);
+    setPendingLink(null);
+  };
+
+  /**
+   * Opens a `.transcript` file as a new conversation tab
+   * @param event - Change event of the hidden file input
+   */
+  const handleImportTranscript = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const history = parseTranscript(await file.text());
+      const conversation = conversationManager.createConversation(
+        file.name.replace(/\.transcript$/i, "")
+      );
+      conversationManager.restoreHistory(conversation.id, history);
+    } catch (err) {
+      setErrorDetails({
+        title: "📄 Import Failed",
+        message: `${file.name}: ${
+          err instanceof Error ? err.message : String(err)
+        }`,
+        canNavigateToConfig: false,
+      });
+      setShowErrorPopup(true);
+    }
+  };
+
+  // Configurations a baseline can be replayed against
+  const regressionTargets: RegressionTarget[] = [
+    { id: "current", label: "Current configuration" },
+    ...scriptedScenarios.map((scenario) => ({
+      id: `scripted:${scenario.id}`,
+      label: `Scripted agent: ${scenario.name}`,
+    })),
+  ];
+
+  /**
+   * Reloads the regression baselines and shows them
+   */
+  const openRegressionModal = async () => {
+    setShowRegressionModal(true);
+    try {
+      setBaselines(await loadBaselines());
+    } catch (err) {
+      setError(
+        `Failed to load baselines: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  };
+
+  /**
+   * Saves the active conversation as a regression baseline
+   */
+  const handleMarkBaseline = async () => {
+    const name = window.prompt("Baseline name", activeConversation.title);
+    if (!name || !name.trim()) return;
+
+    try {
+      await saveBaseline(createBaseline(name.trim(), conversationHistory));
+      await openRegressionModal();
+    } catch (err) {
+      setError(
+        `Failed to save baseline: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  };
+
+  /**
+   * Deletes a regression baseline
+   * @param id - Baseline to delete
+   */
+  const handleDeleteBaseline = async (id: string) => {
+    try {
+      await deleteBaseline(id);
+      setBaselines(await loadBaselines());
+    } catch (err) {
+      setError(
+        `Failed to delete baseline: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  };
+
+  /**
+   * Replays a baseline against the chosen configuration
+   * @param baseline - Baseline to replay
+   * @param targetId - "current", or "scripted:" followed by a scenario ID
+   */
+  const handleRunRegression = async (
+    baseline: RegressionBaseline,
+    targetId: string
+  ) => {
+    const target = regressionTargets.find(
+      (candidate) => candidate.id === targetId
+    );
+    let runClient: AgentClient;
+
+    if (targetId === "current") {
+      const validation = validateConfiguration();
+      if (!validation.isValid) {
+        setShowRegressionModal(false);
+        showConfigurationError(validation.missingFields);
+        return;
+      }
+      runClient = agentClient || createClient(config);
+      if (!agentClient) {
+        setAgentClient(runClient);
+      }
+    } else {
+      // Scripted runs get a client of their own so the current one is untouched
+      runClient = createClient({
+        ...config,
+        transportType: "scripted",
+        scenarioId: targetId.replace(/^scripted:/, ""),
+      });
+    }
+
+    const abortController = new AbortController();
+    regressionAbortRef.current = abortController;
+    setRegressionRunning(true);
+    setRegressionReport(null);
+
+    try {
+      await runRegression(runClient, baseline, {
+        target: target ? target.label : targetId,
+        signal: abortController.signal,
+        onProgress: setRegressionReport,
+      });
+    } catch (err) {
+      setError(
+        `Regression run failed: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    } finally {
+      if (targetId !== "current") {
+        runClient.dispose();
+      }
+      regressionAbortRef.current = null;
+      setRegressionRunning(false);
+    }
+  };
+
+  /**
+   * Sends a batch of utterances with the current configuration
+   * @param utterances - Utterances to send
+   * @param settings - Concurrency and conversation mode
+   */
+  const handleRunBatch = async (
+    utterances: BatchUtterance[],
+    settings: BatchRunSettings
+  ) => {
+    const validation = validateConfiguration();
+    if (!validation.isValid) {
+      setShowBatchModal(false);
+      showConfigurationError(validation.missingFields);
+      return;
+    }
+
+    let runClient = agentClient;
+    if (!runClient) {
+      runClient = createClient(config);
+      setAgentClient(runClient);
+    }
+
+    const abortController = new AbortController();
+    batchAbortRef.current = abortController;
+    setBatchResults([]);
+    setBatchTotal(utterances.length);
+    setBatchRunning(true);
+
+    try {
+      await runBatch(runClient, utterances, {
+        ...settings,
+        signal: abortController.signal,
+        onResult: (result) =>
+          setBatchResults((previous) => [...previous, result]),
+      });
+    } catch (err) {
+      setError(
+        `Batch run failed: ${err instanceof Error ? err.message : String(err)}`
+      );
+    } finally {
+      batchAbortRef.current = null;
+      setBatchRunning(false);
+    }
   };
 
   /**
@@ -589,50 +1290,140 @@ const AgentInterface: React.FC = () => {
   /**
    * Handles message sending to agent with validation and error handling
    * @param messageText - User message to send to agent
+   * @param attachments - Files attached to the message
+   * @param locale - Optional locale overriding the conversation's locale
    */
-  const handleSendMessage = async (messageText: string) => {
+  const handleSendMessage = async (
+    messageText: string,
+    attachments: ActivityAttachment[] = [],
+    locale?: string
+  ) => {
+    await handleSendActivity(
+      createMessageActivity(messageText, attachments, locale)
+    );
+  };
+
+  /**
+   * Sends an activity in the active conversation with validation and error handling
+   * @param activity - Message, event, or invoke activity to send
+   */
+  const handleSendActivity = async (activity: OutgoingActivity) => {
     const validation = validateConfiguration();
     if (!validation.isValid) {
       showConfigurationError(validation.missingFields);
       return;
     }
 
-    setMessage(messageText);
-    setLoading(true);
     setError("");
     setShowErrorPopup(false);
 
+    const conversationId = activeConversation.id;
+
     try {
       // Create agent client if not exists or config changed
       let currentClient = agentClient;
       if (!currentClient) {
-        currentClient = createAgentClient(config);
+        currentClient = createClient(config);
         setAgentClient(currentClient);
       }
 
-      const result = await currentClient.sendMessage(
-        messageText,
+      // Keep the typed message if sign-in redirects away from the page
+      pendingMessageRef.current =
+        activity.type === "message" ? activity.text || "" : "";
+
+      await conversationManager.sendActivity(
+        currentClient,
+        conversationId,
+        activity,
         continueConversation
       );
-      setResponse(result);
-
-      setConversationHistory((prev) => [
-        ...prev,
-        {
-          message: messageText,
-          response: result,
-          timestamp: new Date().toISOString(),
-        },
-      ]);
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "An unexpected error occurred"
       );
     } finally {
-      setLoading(false);
+      pendingMessageRef.current = "";
+    }
+  };
+
+  /**
+   * Starts a new agent conversation in the active tab and shows its greeting
+   */
+  const handleStartConversation = async () => {
+    const validation = validateConfiguration();
+    if (!validation.isValid) {
+      showConfigurationError(validation.missingFields);
+      return;
+    }
+
+    setError("");
+    setShowErrorPopup(false);
+
+    try {
+      let currentClient = agentClient;
+      if (!currentClient) {
+        currentClient = createClient(config);
+        setAgentClient(currentClient);
+      }
+
+      await conversationManager.startConversation(
+        currentClient,
+        activeConversation.id,
+        emitStartEvent
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "An unexpected error occurred"
+      );
+    }
+  };
+
+  /**
+   * Runs an Adaptive Card Action.Execute or card refresh in the active conversation
+   * @param card - Content of the card the action ran on
+   * @param action - Action with its verb and data
+   * @param trigger - "manual" for a clicked button, "automatic" for a refresh
+   */
+  const handleExecuteCardAction = async (
+    card: any,
+    action: CardExecuteAction,
+    trigger: "manual" | "automatic"
+  ) => {
+    const validation = validateConfiguration();
+    if (!validation.isValid) {
+      showConfigurationError(validation.missingFields);
+      return;
+    }
+
+    setError("");
+    try {
+      let currentClient = agentClient;
+      if (!currentClient) {
+        currentClient = createClient(config);
+        setAgentClient(currentClient);
+      }
+
+      await conversationManager.executeCardAction(
+        currentClient,
+        activeConversation.id,
+        card,
+        action,
+        trigger
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "An unexpected error occurred"
+      );
     }
   };
 
+  /**
+   * Stops the turn that is in flight in the active conversation
+   */
+  const handleStop = () => {
+    conversationManager.stop(activeConversation.id);
+  };
+
   /**
    * Handles suggested action clicks by sending action as message
    * @param action - Suggested action text to execute
@@ -671,23 +1462,90 @@ const AgentInterface: React.FC = () => {
           </ToggleHelperText>
         </ConversationToggle>
 
-        <ConfigButton onClick={() => setShowConfigModal(true)}>
-          ⚙️ Update Agent Configuration
-        </ConfigButton>
+        <ControlButtons>
+          <ConfigButton onClick={openSessionsModal}>🗂️ Sessions</ConfigButton>
+          <ConfigButton onClick={openRegressionModal}>
+            🧪 Regression Runs
+          </ConfigButton>
+          <ConfigButton onClick={() => setShowBatchModal(true)}>
+            📋 Batch Run
+          </ConfigButton>
+          <ConfigButton onClick={() => setShowContentPolicyModal(true)}>
+            🛡️ Content Policy
+          </ConfigButton>
+          <ConfigButton onClick={() => setShowConfigModal(true)}>
+            ⚙️ Update Agent Configuration
+          </ConfigButton>
+        </ControlButtons>
       </CombinedControlsSection>
 
+      {agentClient && agentClient.usesAuthentication() && (
+        <AuthStatusPanel agentClient={agentClient} />
+      )}
+
+      <ConversationTabs
+        conversations={conversationState.conversations}
+        activeConversationId={activeConversation.id}
+        onSelect={(id) => conversationManager.switchConversation(id)}
+        onCreate={() =>
+          conversationManager.createConversation(
+            undefined,
+            newConversationLocale
+          )
+        }
+        onRename={(id, title) =>
+          conversationManager.renameConversation(id, title)
+        }
+        onClose={(id) => conversationManager.closeConversation(id, agentClient)}
+        newConversationLocale={newConversationLocale}
+        onNewConversationLocaleChange={setNewConversationLocale}
+      />
+
       <ChatGrid>
         <Section>
           <SectionTitle>
             <Icon>💬</Icon>
             Chat with Agent
+            <ConnectionBadge
+              state={connectionState}
+              title="Connection to the agent"
+            >
+              {connectionStateStyles[connectionState].label}
+            </ConnectionBadge>
           </SectionTitle>
           <MessageInterface
             onSendMessage={handleSendMessage}
+            onStop={handleStop}
             disabled={loading}
             currentMessage={message}
+            draftMessage={draftMessage}
+            conversationLocale={activeConversation.locale}
           />
+          <StartConversationBar>
+            <HistoryButton
+              type="button"
+              disabled={loading}
+              onClick={handleStartConversation}
+              title="Start a new agent conversation and show what the agent sends first"
+            >
+              ▶️ Start conversation
+            </HistoryButton>
+            <label>
+              <input
+                type="checkbox"
+                checked={emitStartEvent}
+                onChange={(e) => setEmitStartEvent(e.target.checked)}
+              />{" "}
+              Emit start event
+            </label>
+          </StartConversationBar>
+          <ActivityComposer onSend={handleSendActivity} disabled={loading} />
 
+          {loading && (
+            <TypingIndicator
+              activities={response?.metadata?.fullActivities || []}
+            />
+          )}
           {loading && (
             <LoadingContainer>
               <Oval
@@ -711,9 +1569,22 @@ const AgentInterface: React.FC = () => {
             <Icon>📤</Icon>
             Agent Response
           </SectionTitle>
+          <CardHostBar>
+            <HostConfigPicker
+              settings={cardHostSettings}
+              onChange={handleCardHostChange}
+            />
+          </CardHostBar>
           <ResponseDisplay
             response={response}
+            isLoading={loading}
             onSuggestedAction={handleSuggestedAction}
+            onSendActivity={handleSendActivity}
+            onExecuteAction={handleExecuteCardAction}
+            userId={agentClient ? agentClient.getUserId() : null}
+            contentPolicy={contentPolicy}
+            onOpenUrl={handleOpenUrl}
+            hostConfig={hostConfig}
           />
         </Section>
 
@@ -721,6 +1592,43 @@ const AgentInterface: React.FC = () => {
           <SectionTitle>
             <Icon>💭</Icon>
             Conversation History
+            <HistoryActions>
+              <HistoryButton
+                type="button"
+                disabled={conversationHistory.length === 0}
+                onClick={() =>
+                  downloadTranscript(
+                    conversationHistory,
+                    activeConversation.title
+                  )
+                }
+                title="Export this conversation as a Bot Framework .transcript file"
+              >
+                ⬇️ Export
+              </HistoryButton>
+              <HistoryButton
+                type="button"
+                disabled={conversationHistory.length === 0 || loading}
+                onClick={handleMarkBaseline}
+                title="Save this conversation as a regression baseline"
+              >
+                📌 Baseline
+              </HistoryButton>
+              <HistoryButton
+                type="button"
+                onClick={() => transcriptInputRef.current?.click()}
+                title="Open a .transcript file in a new tab"
+              >
+                ⬆️ Import
+              </HistoryButton>
+              <input
+                ref={transcriptInputRef}
+                type="file"
+                accept=".transcript,application/json"
+                style={{ display: "none" }}
+                onChange={handleImportTranscript}
+              />
+            </HistoryActions>
           </SectionTitle>
           {conversationHistory.length === 0 ? (
             <div
@@ -744,7 +1652,36 @@ const AgentInterface: React.FC = () => {
                       <UserIcon />
                     </MessageIcon>
                     <MessageContent className="user">
-                      {item.message}
+                      {item.conversationStart
+                        ? `▶️ Conversation started ${
+                            item.conversationStart.emitStartEvent
+                              ? "with"
+                              : "without"
+                          } start event`
+                        : item.message}
+                      {item.activity?.attachments &&
+                        item.activity.attachments.length > 0 && (
+                          <div style={{ marginTop: "6px" }}>
+                            <AttachmentList
+                              attachments={item.activity.attachments}
+                            />
+                          </div>
+                        )}
+                      {/* Show the payload of events, invokes, and structured messages */}
+                      {item.activity &&
+                        (item.activity.value !== undefined ||
+                          item.activity.channelData !== undefined) && (
+                          <ActivityPayload>
+                            {JSON.stringify(
+                              {
+                                value: item.activity.value,
+                                channelData: item.activity.channelData,
+                              },
+                              null,
+                              2
+                            )}
+                          </ActivityPayload>
+                        )}
                     </MessageContent>
                   </MessageRow>
                   <MessageRow>
@@ -773,6 +1710,9 @@ const AgentInterface: React.FC = () => {
                                   <AdaptiveCardRenderer
                                     cardData={card}
                                     index={cardIndex}
+                                    contentPolicy={contentPolicy}
+                                    onOpenUrl={handleOpenUrl}
+                                    hostConfig={hostConfig}
                                   />
                                 </div>
                               )
@@ -792,9 +1732,13 @@ const AgentInterface: React.FC = () => {
                             No response content
                           </div>
                         )}
+
+                      <ActivityTimeline response={item.response} />
                     </MessageContent>
                   </MessageRow>
                   <MessageTimestamp>
+                    {item.response.metadata?.locale &&
+                      `🌐 ${item.response.metadata.locale} · `}
                     {new Date(item.timestamp).toLocaleString()}
                   </MessageTimestamp>
                 </ConversationItem>
@@ -803,6 +1747,83 @@ const AgentInterface: React.FC = () => {
         </ConversationHistory>
       </ChatGrid>
 
+      <Modal
+        isOpen={showSessionsModal}
+        onClose={() => setShowSessionsModal(false)}
+        title="Saved Sessions"
+      >
+        <SessionList
+          sessions={storedSessions}
+          openSessionIds={conversationState.conversations.map(
+            (conversation) => conversation.id
+          )}
+          retention={sessionRetention}
+          onOpen={handleOpenSession}
+          onDelete={handleDeleteSession}
+          onClearAll={handleClearAllSessions}
+          onRetentionChange={handleRetentionChange}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={showRegressionModal}
+        onClose={() => setShowRegressionModal(false)}
+        title="Regression Runs"
+      >
+        <RegressionPanel
+          baselines={baselines}
+          targets={regressionTargets}
+          report={regressionReport}
+          isRunning={regressionRunning}
+          onRun={handleRunRegression}
+          onStop={() => regressionAbortRef.current?.abort()}
+          onDelete={handleDeleteBaseline}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={showBatchModal}
+        onClose={() => setShowBatchModal(false)}
+        title="Batch Run"
+      >
+        <BatchRunPanel
+          results={batchResults}
+          totalCount={batchTotal}
+          isRunning={batchRunning}
+          onRun={handleRunBatch}
+          onStop={() => batchAbortRef.current?.abort()}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={showContentPolicyModal}
+        onClose={() => setShowContentPolicyModal(false)}
+        title="Content Policy"
+      >
+        <ContentPolicyForm
+          policy={contentPolicy}
+          onSave={handleContentPolicySave}
+          onCancel={() => setShowContentPolicyModal(false)}
+        />
+      </Modal>
+
+      <Modal
+        isOpen={pendingLink !== null}
+        onClose={() => setPendingLink(null)}
+        title="Open External Link?"
+      >
+        {pendingLink !== null && (
+          <LinkConfirmation
+            url={pendingLink}
+            host={getLinkHost(pendingLink)}
+            isNavigable={isNavigableUrl(pendingLink)}
+            onOpen={() => handleConfirmLink(false)}
+            onAllowDomain={() => handleConfirmLink(true)}
+            onCancel={() => setPendingLink(null)}
+          />
+        )}
+      </Modal>
+
       <Modal
         isOpen={showConfigModal}
         onClose={() => setShowConfigModal(false)}
@@ -0,0 +1,130 @@
+/**
+ * Attachment List Component
+ *
+ * Shows the files attached to a message: image thumbnails, or the file name, type,
+ * and size for other files. Used for the attachments waiting to be sent, where
+ * each one can be removed, and for the attachments of past turns in the history.
+ */
+
+import React from "react";
+import styled from "styled-components";
+import { ActivityAttachment } from "../types/agent";
+import {
+  formatFileSize,
+  getAttachmentSize,
+  isImageAttachment,
+} from "../services/attachments";
+
+const List = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+`;
+
+const Item = styled.div`
+  position: relative;
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  max-width: 220px;
+  padding: 6px 10px;
+  background: white;
+  border: 1px solid #dee2e6;
+  border-radius: 6px;
+  font-size: 0.8rem;
+  font-weight: 400;
+  color: #495057;
+`;
+
+const Thumbnail = styled.img`
+  width: 40px;
+  height: 40px;
+  object-fit: cover;
+  border-radius: 4px;
+`;
+
+const FileIcon = styled.span`
+  font-size: 1.5rem;
+`;
+
+const FileInfo = styled.div`
+  min-width: 0;
+`;
+
+const FileName = styled.div`
+  font-weight: 600;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+`;
+
+const FileDetails = styled.div`
+  color: #6c757d;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+`;
+
+const RemoveButton = styled.button`
+  background: none;
+  border: none;
+  color: #6c757d;
+  font-size: 1rem;
+  line-height: 1;
+  cursor: pointer;
+  padding: 0 2px;
+
+  &:hover {
+    color: #dc3545;
+  }
+`;
+
+/**
+ * Props interface for AttachmentList component
+ */
+interface AttachmentListProps {
+  attachments: ActivityAttachment[]; // Attachments to show
+  onRemove?: (index: number) => void; // Optional callback that removes an attachment
+}
+
+/**
+ * AttachmentList component for previewing message attachments
+ * @param props - Component props containing the attachments
+ * @returns JSX.Element - Attachment previews
+ */
+const AttachmentList: React.FC<AttachmentListProps> = ({
+  attachments,
+  onRemove,
+}) => {
+  return (
+    <List>
+      {attachments.map((attachment, index) => (
+        <Item key={index} title={attachment.name}>
+          {isImageAttachment(attachment) ? (
+            <Thumbnail src={attachment.contentUrl} alt={attachment.name} />
+          ) : (
+            <FileIcon>📄</FileIcon>
+          )}
+          <FileInfo>
+            <FileName>{attachment.name || "Attachment"}</FileName>
+            <FileDetails>
+              {attachment.contentType} ·{" "}
+              {formatFileSize(getAttachmentSize(attachment))}
+            </FileDetails>
+          </FileInfo>
+          {onRemove && (
+            <RemoveButton
+              type="button"
+              onClick={() => onRemove(index)}
+              title={`Remove ${attachment.name || "attachment"}`}
+            >
+              ×
+            </RemoveButton>
+          )}
+        </Item>
+      ))}
+    </List>
+  );
+};
+
+export default AttachmentList;
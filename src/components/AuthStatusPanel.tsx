@@ -0,0 +1,192 @@
+/**
+ * Authentication Status Panel Component
+ *
+ * Shows live authentication state for the current agent client: whether a valid
+ * token is held, a countdown to token expiry, the last authentication method,
+ * and, until a token is acquired again, the last authentication error with its
+ * timestamp.
+ */
+
+import React, { useEffect, useState } from "react";
+import styled from "styled-components";
+import { AgentClient, AuthStatus } from "../services/agentService";
+
+const Panel = styled.div`
+  background: linear-gradient(135deg, #f8f9fa 0%, #e9ecef 100%);
+  border: 1px solid #dee2e6;
+  border-radius: 12px;
+  padding: 16px 20px;
+  margin-bottom: 20px;
+  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.05);
+`;
+
+const PanelTitle = styled.h4`
+  margin: 0 0 12px 0;
+  color: #495057;
+  font-size: 0.9rem;
+  font-weight: 600;
+`;
+
+const StatusGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(180px, 1fr));
+  gap: 12px;
+`;
+
+const StatusItem = styled.div`
+  background: white;
+  padding: 8px 12px;
+  border-radius: 6px;
+  border: 1px solid #dee2e6;
+`;
+
+const StatusLabel = styled.div`
+  font-size: 0.75rem;
+  color: #6c757d;
+  font-weight: 600;
+  margin-bottom: 2px;
+`;
+
+const StatusValue = styled.div<{ tone?: "success" | "warning" | "danger" }>`
+  font-size: 0.9rem;
+  font-weight: 500;
+  color: ${(props) =>
+    props.tone === "success"
+      ? "#28a745"
+      : props.tone === "warning"
+      ? "#fd7e14"
+      : props.tone === "danger"
+      ? "#dc3545"
+      : "#495057"};
+  word-break: break-word;
+`;
+
+const ErrorDetails = styled.div`
+  margin-top: 12px;
+  background: #f8d7da;
+  color: #721c24;
+  padding: 10px 12px;
+  border-radius: 6px;
+  border: 1px solid #f5c6cb;
+  font-size: 0.85rem;
+`;
+
+/**
+ * Props interface for AuthStatusPanel component
+ */
+interface AuthStatusPanelProps {
+  agentClient: AgentClient; // Agent client whose auth status is shown
+}
+
+/**
+ * Formats remaining milliseconds as a countdown
+ * @param ms - Remaining time in milliseconds
+ * @returns string - Countdown in h:mm:ss or m:ss format
+ */
+const formatCountdown = (ms: number): string => {
+  const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = pad(totalSeconds % 60);
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
+
+/**
+ * AuthStatusPanel component for live authentication diagnostics
+ * @param props - Component props containing the agent client
+ * @returns JSX.Element - Authentication status panel
+ */
+const AuthStatusPanel: React.FC<AuthStatusPanelProps> = ({ agentClient }) => {
+  const [status, setStatus] = useState<AuthStatus | null>(null);
+  const [now, setNow] = useState<number>(Date.now());
+
+  // Follow auth status changes of the current client
+  useEffect(() => {
+    return agentClient.subscribeToAuthStatus(setStatus);
+  }, [agentClient]);
+
+  // Tick once per second for the expiry countdown
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!status) {
+    return null;
+  }
+
+  const expiresAt = status.tokenInfo?.expiresAt
+    ? new Date(status.tokenInfo.expiresAt).getTime()
+    : null;
+  const remainingMs = expiresAt !== null ? expiresAt - now : null;
+  const hasValidToken = remainingMs !== null && remainingMs > 0;
+
+  /**
+   * Chooses countdown color based on remaining token lifetime
+   * @returns Tone for the countdown value
+   */
+  const getCountdownTone = (): "success" | "warning" | "danger" => {
+    if (!hasValidToken) return "danger";
+    return remainingMs! < 5 * 60 * 1000 ? "warning" : "success";
+  };
+
+  return (
+    <Panel>
+      <PanelTitle>🔐 Authentication Status</PanelTitle>
+      <StatusGrid>
+        <StatusItem>
+          <StatusLabel>STATE</StatusLabel>
+          <StatusValue tone={hasValidToken ? "success" : "danger"}>
+            {hasValidToken
+              ? "✅ Authenticated"
+              : status.tokenInfo?.hasToken
+              ? "⌛ Token expired"
+              : "❌ Not authenticated"}
+          </StatusValue>
+        </StatusItem>
+        {status.account && (
+          <StatusItem>
+            <StatusLabel>ACCOUNT</StatusLabel>
+            <StatusValue>{status.account}</StatusValue>
+          </StatusItem>
+        )}
+        <StatusItem>
+          <StatusLabel>TOKEN EXPIRES IN</StatusLabel>
+          <StatusValue
+            tone={expiresAt !== null ? getCountdownTone() : undefined}
+          >
+            {remainingMs === null ? "—" : formatCountdown(remainingMs)}
+          </StatusValue>
+        </StatusItem>
+        <StatusItem>
+          <StatusLabel>LAST AUTH METHOD</StatusLabel>
+          <StatusValue>{status.lastAuthMethod || "—"}</StatusValue>
+        </StatusItem>
+        <StatusItem>
+          <StatusLabel>LAST AUTHENTICATED</StatusLabel>
+          <StatusValue>
+            {status.lastAuthenticatedAt
+              ? new Date(status.lastAuthenticatedAt).toLocaleTimeString()
+              : "—"}
+          </StatusValue>
+        </StatusItem>
+      </StatusGrid>
+
+      {status.error && (
+        <ErrorDetails>
+          <strong>
+            ⚠️ Last auth error at{" "}
+            {new Date(status.error.timestamp).toLocaleString()}:
+          </strong>{" "}
+          {status.error.name}: {status.error.message}
+        </ErrorDetails>
+      )}
+    </Panel>
+  );
+};
+
+export default AuthStatusPanel;
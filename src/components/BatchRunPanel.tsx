@@ -0,0 +1,408 @@
+/**
+ * Batch Run Panel Component
+ *
+ * Loads a CSV or JSON list of utterances, sends them to the agent sequentially or
+ * with bounded concurrency, and shows the results in a sortable table with the
+ * pass/fail status, failed expectations, duration and the raw activities of every
+ * response. Results can be exported as CSV or JSON.
+ */
+
+import React, { useState } from "react";
+import styled from "styled-components";
+import {
+  BatchConversationMode,
+  BatchResult,
+  BatchUtterance,
+} from "../types/agent";
+import { downloadBatchResults, parseBatchFile } from "../services/batchRunner";
+
+const PanelContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 16px;
+`;
+
+const SourceInput = styled.textarea`
+  width: 100%;
+  min-height: 120px;
+  padding: 8px;
+  border: 1px solid #ced4da;
+  border-radius: 6px;
+  font-family: monospace;
+  font-size: 0.8rem;
+  resize: vertical;
+`;
+
+const OptionsRow = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 12px;
+  font-size: 0.85rem;
+  color: #495057;
+`;
+
+const OptionInput = styled.input`
+  width: 60px;
+  padding: 4px 8px;
+  border: 1px solid #ced4da;
+  border-radius: 4px;
+`;
+
+const OptionSelect = styled.select`
+  padding: 4px 8px;
+  border: 1px solid #ced4da;
+  border-radius: 4px;
+`;
+
+const RowButton = styled.button<{ danger?: boolean }>`
+  background: ${(props) => (props.danger ? "#dc3545" : "#667eea")};
+  color: white;
+  border: none;
+  padding: 6px 12px;
+  border-radius: 6px;
+  font-size: 0.85rem;
+  cursor: pointer;
+
+  &:disabled {
+    background: #adb5bd;
+    cursor: not-allowed;
+  }
+`;
+
+const HelpText = styled.div`
+  font-size: 0.8rem;
+  color: #6c757d;
+`;
+
+const ParseError = styled.div`
+  background: #f8d7da;
+  color: #721c24;
+  padding: 8px 12px;
+  border-radius: 6px;
+  border: 1px solid #f5c6cb;
+  font-size: 0.85rem;
+`;
+
+const Summary = styled.div`
+  flex: 1;
+  font-size: 0.85rem;
+  color: #495057;
+`;
+
+const ResultsTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 0.8rem;
+
+  th,
+  td {
+    padding: 6px 8px;
+    border-bottom: 1px solid #dee2e6;
+    text-align: left;
+    vertical-align: top;
+  }
+
+  th {
+    background: #f8f9fa;
+    color: #495057;
+    cursor: pointer;
+    user-select: none;
+    white-space: nowrap;
+  }
+`;
+
+const resultStatusStyles: Record<
+  BatchResult["status"],
+  { label: string; color: string }
+> = {
+  passed: { label: "✅ Pass", color: "#155724" },
+  failed: { label: "❌ Fail", color: "#721c24" },
+  error: { label: "⚠️ Error", color: "#856404" },
+};
+
+const StatusCell = styled.td`
+  font-weight: 600;
+  white-space: nowrap;
+  color: ${({ status }: { status: BatchResult["status"] }) =>
+    resultStatusStyles[status].color};
+`;
+
+const ActivitiesLink = styled.a`
+  color: #667eea;
+  cursor: pointer;
+  white-space: nowrap;
+`;
+
+type SortKey = "index" | "text" | "status" | "duration";
+
+const sortColumns: Array<{ key: SortKey; label: string }> = [
+  { key: "index", label: "#" },
+  { key: "text", label: "Utterance" },
+  { key: "status", label: "Result" },
+  { key: "duration", label: "Duration" },
+];
+
+/**
+ * Settings chosen for a batch run
+ */
+export interface BatchRunSettings {
+  concurrency: number;
+  conversationMode: BatchConversationMode;
+}
+
+/**
+ * Props interface for BatchRunPanel component
+ */
+interface BatchRunPanelProps {
+  results: BatchResult[]; // Results of the current or last run, in completion order
+  totalCount: number; // Number of utterances in the current or last run
+  isRunning: boolean; // Whether a run is in progress
+  onRun: (utterances: BatchUtterance[], settings: BatchRunSettings) => void; // Callback to start a run
+  onStop: () => void; // Callback to stop the running batch
+}
+
+/**
+ * Opens the raw activities of a response as JSON in a new tab
+ * @param result - Result whose activities are shown
+ */
+const openActivities = (result: BatchResult) => {
+  const blob = new Blob(
+    [JSON.stringify(result.response.metadata?.fullActivities || [], null, 2)],
+    { type: "application/json" }
+  );
+  const url = URL.createObjectURL(blob);
+  window.open(url, "_blank", "noopener");
+  // Give the new tab time to load the document before releasing it
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
+
+/**
+ * BatchRunPanel component for running utterance batches and reviewing results
+ * @param props - Component props containing results and callbacks
+ * @returns JSX.Element - Batch input, options and results table
+ */
+const BatchRunPanel: React.FC<BatchRunPanelProps> = ({
+  results,
+  totalCount,
+  isRunning,
+  onRun,
+  onStop,
+}) => {
+  const [source, setSource] = useState<string>("");
+  const [fileName, setFileName] = useState<string>("");
+  const [parseError, setParseError] = useState<string>("");
+  const [concurrency, setConcurrency] = useState<number>(1);
+  const [conversationMode, setConversationMode] =
+    useState<BatchConversationMode>("fresh");
+  const [sortKey, setSortKey] = useState<SortKey>("index");
+  const [sortAscending, setSortAscending] = useState<boolean>(true);
+
+  /**
+   * Loads a CSV or JSON file into the editor
+   * @param event - Change event of the file input
+   */
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setSource(await file.text());
+    setFileName(file.name);
+    setParseError("");
+  };
+
+  /**
+   * Parses the utterances and starts the run
+   */
+  const handleRun = () => {
+    try {
+      const utterances = parseBatchFile(source, fileName);
+      setParseError("");
+      onRun(utterances, { concurrency, conversationMode });
+    } catch (err) {
+      setParseError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  /**
+   * Sorts by a column, toggling the direction when it is already sorted
+   * @param key - Column to sort by
+   */
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(true);
+    }
+  };
+
+  /**
+   * Gets the value of the sorted column for a result
+   * @param result - Result to read
+   * @returns string | number - Comparable column value
+   */
+  const sortValue = (result: BatchResult): string | number => {
+    if (sortKey === "text") return result.utterance.text.toLowerCase();
+    if (sortKey === "status") return result.status;
+    if (sortKey === "duration") return result.duration;
+    return result.index;
+  };
+
+  const sortedResults = results.slice().sort((a, b) => {
+    const left = sortValue(a);
+    const right = sortValue(b);
+    const order = left < right ? -1 : left > right ? 1 : a.index - b.index;
+    return sortAscending ? order : -order;
+  });
+
+  const passedCount = results.filter(
+    (result) => result.status === "passed"
+  ).length;
+
+  return (
+    <PanelContainer>
+      <OptionsRow>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          disabled={isRunning}
+          onChange={handleFileChange}
+        />
+      </OptionsRow>
+      <SourceInput
+        value={source}
+        disabled={isRunning}
+        placeholder={
+          "text,locale,textContains,textRegex,cardPresent,suggestedAction,maxLatencyMs\nHello,en-US,welcome,,,,3000"
+        }
+        onChange={(e) => {
+          setSource(e.target.value);
+          setFileName("");
+        }}
+      />
+      <HelpText>
+        CSV with a header row, or a JSON array of strings or objects. Only{" "}
+        <code>text</code> is required; the other columns are expectations.
+      </HelpText>
+      {parseError && <ParseError>{parseError}</ParseError>}
+
+      <OptionsRow>
+        <label>
+          Conversation{" "}
+          <OptionSelect
+            value={conversationMode}
+            disabled={isRunning}
+            onChange={(e) =>
+              setConversationMode(e.target.value as BatchConversationMode)
+            }
+          >
+            <option value="fresh">Fresh per utterance</option>
+            <option value="shared">Shared, in order</option>
+          </OptionSelect>
+        </label>
+        <label>
+          In parallel{" "}
+          <OptionInput
+            type="number"
+            min={1}
+            max={10}
+            value={conversationMode === "shared" ? 1 : concurrency}
+            disabled={isRunning || conversationMode === "shared"}
+            onChange={(e) =>
+              setConcurrency(
+                Math.max(
+                  1,
+                  Math.min(10, Math.floor(Number(e.target.value)) || 1)
+                )
+              )
+            }
+          />
+        </label>
+        {isRunning ? (
+          <RowButton type="button" danger onClick={onStop}>
+            ⏹️ Stop
+          </RowButton>
+        ) : (
+          <RowButton
+            type="button"
+            disabled={!source.trim()}
+            onClick={handleRun}
+          >
+            ▶️ Run batch
+          </RowButton>
+        )}
+      </OptionsRow>
+
+      {(results.length > 0 || isRunning) && (
+        <>
+          <OptionsRow>
+            <Summary>
+              {passedCount} of {results.length} passed
+              {isRunning && ` · ${results.length} of ${totalCount} done…`}
+            </Summary>
+            <RowButton
+              type="button"
+              disabled={results.length === 0}
+              onClick={() => downloadBatchResults(sortedResults, "csv")}
+            >
+              ⬇️ CSV
+            </RowButton>
+            <RowButton
+              type="button"
+              disabled={results.length === 0}
+              onClick={() => downloadBatchResults(sortedResults, "json")}
+            >
+              ⬇️ JSON
+            </RowButton>
+          </OptionsRow>
+
+          <ResultsTable>
+            <thead>
+              <tr>
+                {sortColumns.map((column) => (
+                  <th key={column.key} onClick={() => handleSort(column.key)}>
+                    {column.label}
+                    {sortKey === column.key && (sortAscending ? " ▲" : " ▼")}
+                  </th>
+                ))}
+                <th>Details</th>
+                <th>Activities</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedResults.map((result) => (
+                <tr key={result.index}>
+                  <td>{result.index + 1}</td>
+                  <td>
+                    {result.utterance.text}
+                    {result.utterance.locale && ` (${result.utterance.locale})`}
+                  </td>
+                  <StatusCell status={result.status}>
+                    {resultStatusStyles[result.status].label}
+                  </StatusCell>
+                  <td>{result.duration}ms</td>
+                  <td>{result.failures.join("; ") || "—"}</td>
+                  <td>
+                    <ActivitiesLink
+                      role="button"
+                      onClick={() => openActivities(result)}
+                    >
+                      {result.response.metadata?.fullActivities?.length || 0}{" "}
+                      raw
+                    </ActivitiesLink>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </ResultsTable>
+        </>
+      )}
+    </PanelContainer>
+  );
+};
+
+export default BatchRunPanel;
@@ -8,7 +8,24 @@
 
 import React, { useState } from "react";
 import styled from "styled-components";
-import { AgentConfig } from "../types/agent";
+import {
+  AgentCloud,
+  AgentConfig,
+  AgentTransportType,
+  AuthMode,
+  ConnectionMode,
+} from "../types/agent";
+import { scriptedScenarios } from "../scenarios";
+import {
+  cloudProfiles,
+  getAuthority,
+  getDefaultScope,
+  getEffectiveCloud,
+  isValidAuthority,
+  isValidTenant,
+} from "../services/cloudSettings";
+import { validateDirectConnectUrl } from "../services/directConnectUrl";
+import { defaultRetryPolicy } from "../services/retryPolicy";
 
 const Form = styled.form`
   display: flex;
@@ -47,6 +64,21 @@ const Input = styled.input`
   }
 `;
 
+const Select = styled.select`
+  padding: 12px 16px;
+  border: 2px solid #e9ecef;
+  border-radius: 8px;
+  font-size: 1rem;
+  transition: all 0.2s ease;
+  background: white;
+
+  &:focus {
+    outline: none;
+    border-color: #667eea;
+    box-shadow: 0 0 0 3px rgba(102, 126, 234, 0.1);
+  }
+`;
+
 const Button = styled.button`
   background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
   color: white;
@@ -135,6 +167,51 @@ const CancelButton = styled.button`
   }
 `;
 
+const InlineFields = styled.div`
+  display: grid;
+  grid-template-columns: repeat(3, 1fr);
+  gap: 10px;
+`;
+
+const InlineField = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 4px;
+`;
+
+/**
+ * Connection fields required when talking to a live Copilot Studio agent
+ */
+type ConnectionField =
+  | "clientId"
+  | "tenantId"
+  | "botIdentifier"
+  | "environmentId"
+  | "directConnectUrl";
+
+/**
+ * Gets the connection fields required by a connection mode
+ * @param connectionMode - Selected connection mode
+ * @returns ConnectionField[] - Fields that must be filled in
+ */
+const getConnectionFields = (
+  connectionMode: ConnectionMode
+): ConnectionField[] =>
+  connectionMode === "directConnect"
+    ? ["clientId", "tenantId", "directConnectUrl"]
+    : ["clientId", "tenantId", "botIdentifier", "environmentId"];
+
+/**
+ * Retry policy values editable in the form
+ */
+type RetryPolicyField = "maxAttempts" | "initialDelayMs" | "maxDelayMs";
+
+const retryPolicyFields: { field: RetryPolicyField; label: string }[] = [
+  { field: "maxAttempts", label: "Max attempts" },
+  { field: "initialDelayMs", label: "Initial delay (ms)" },
+  { field: "maxDelayMs", label: "Max delay (ms)" },
+];
+
 /**
  * Props interface for ConfigurationForm component
  */
@@ -155,7 +232,12 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
   onCancel,
 }) => {
   const [formData, setFormData] = useState<AgentConfig>(config);
-  const [errors, setErrors] = useState<Partial<AgentConfig>>({});
+  const [errors, setErrors] = useState<
+    Partial<Record<ConnectionField, string | null>>
+  >({});
+  const isScripted = formData.transportType === "scripted";
+  const connectionMode = formData.connectionMode || "environment";
+  const connectionFields = getConnectionFields(connectionMode);
 
   /**
    * Validates individual form field value
@@ -164,7 +246,7 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
    * @returns string | null - Error message or null if valid
    */
   const validateField = (
-    field: keyof AgentConfig,
+    field: ConnectionField,
     value: string
   ): string | null => {
     switch (field) {
@@ -179,13 +261,9 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
         }
         return null;
       case "tenantId":
-        if (!value.trim()) return "Tenant ID is required";
-        if (
-          !/^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(
-            value
-          )
-        ) {
-          return "Tenant ID must be a valid GUID";
+        if (!value.trim()) return "Tenant is required";
+        if (!isValidTenant(value)) {
+          return "Tenant must be a GUID, 'organizations', 'common' or a verified domain";
         }
         return null;
       case "botIdentifier":
@@ -194,6 +272,8 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
       case "environmentId":
         if (!value.trim()) return "Environment ID is required";
         return null;
+      case "directConnectUrl":
+        return validateDirectConnectUrl(value);
       default:
         return null;
     }
@@ -204,7 +284,7 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
    * @param field - Configuration field being updated
    * @param value - New field value
    */
-  const handleInputChange = (field: keyof AgentConfig, value: string) => {
+  const handleInputChange = (field: ConnectionField, value: string) => {
     const newFormData = {
       ...formData,
       [field]: value,
@@ -218,6 +298,51 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
     }));
   };
 
+  /**
+   * Handles agent source selection, clearing errors of hidden fields
+   * @param transportType - Selected agent transport
+   */
+  const handleTransportChange = (transportType: AgentTransportType) => {
+    setFormData((prev) => ({
+      ...prev,
+      transportType,
+      scenarioId:
+        transportType === "scripted"
+          ? prev.scenarioId || scriptedScenarios[0]?.id
+          : prev.scenarioId,
+    }));
+    setErrors({});
+  };
+
+  /**
+   * Handles connection mode selection, clearing errors of hidden fields
+   * @param mode - Selected connection mode
+   */
+  const handleConnectionModeChange = (mode: ConnectionMode) => {
+    setFormData((prev) => ({ ...prev, connectionMode: mode }));
+    setErrors((prev) => ({
+      clientId: prev.clientId,
+      tenantId: prev.tenantId,
+    }));
+  };
+
+  /**
+   * Updates one retry policy value, removing it when the input is cleared
+   * @param field - Retry policy field being updated
+   * @param value - New input value
+   */
+  const handleRetryPolicyChange = (field: RetryPolicyField, value: string) => {
+    setFormData((prev) => {
+      const retryPolicy = { ...prev.retryPolicy };
+      if (value === "") {
+        delete retryPolicy[field];
+      } else {
+        retryPolicy[field] = Math.max(0, Number(value));
+      }
+      return { ...prev, retryPolicy };
+    });
+  };
+
   /**
    * Handles key down events to prevent unwanted modal closing
    * @param e - Keyboard event
@@ -240,11 +365,17 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
    * @returns boolean - True if form is valid for submission
    */
   const validateForm = (): boolean => {
-    const newErrors: Partial<AgentConfig> = {};
+    const newErrors: Partial<Record<ConnectionField, string | null>> = {};
     let isValid = true;
 
-    (Object.keys(formData) as Array<keyof AgentConfig>).forEach((field) => {
-      const error = validateField(field, formData[field]);
+    // Scripted agents run locally and need no connection details
+    if (isScripted) {
+      setErrors(newErrors);
+      return true;
+    }
+
+    connectionFields.forEach((field) => {
+      const error = validateField(field, formData[field] || "");
       if (error) {
         newErrors[field] = error;
         isValid = false;
@@ -252,7 +383,7 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
     });
 
     setErrors(newErrors);
-    return isValid;
+    return isValid && !authorityError;
   };
 
   /**
@@ -262,7 +393,12 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (validateForm()) {
-      onConfigChange(formData);
+      const scopes = (formData.scopes || []).filter(Boolean);
+      onConfigChange({
+        ...formData,
+        authority: formData.authority?.trim() || undefined,
+        scopes: scopes.length > 0 ? scopes : undefined,
+      });
     }
   };
 
@@ -275,68 +411,321 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
     }
   };
 
+  const authorityError =
+    formData.authority?.trim() && !isValidAuthority(formData.authority)
+      ? "Authority must be an absolute HTTPS URL"
+      : null;
+
   const isFormValid =
-    Object.values(errors).every((error) => !error) &&
-    Object.values(formData).every((value) => value.trim() !== "");
+    isScripted ||
+    (Object.values(errors).every((error) => !error) &&
+      !authorityError &&
+      connectionFields.every((field) => (formData[field] || "").trim() !== ""));
+
+  const selectedScenario = scriptedScenarios.find(
+    (scenario) => scenario.id === formData.scenarioId
+  );
 
   return (
     <>
       <Form onSubmit={handleSubmit} onKeyDown={handleKeyDown}>
         <FormGroup>
-          <Label htmlFor="clientId">Client ID *</Label>
-          <Input
-            id="clientId"
-            type="text"
-            value={formData.clientId}
-            onChange={(e) => handleInputChange("clientId", e.target.value)}
-            onKeyDown={(e) => e.stopPropagation()}
-            required
-          />
-          {errors.clientId && <ErrorText>{errors.clientId}</ErrorText>}
+          <Label htmlFor="transportType">Agent Source</Label>
+          <Select
+            id="transportType"
+            value={formData.transportType || "copilotStudio"}
+            onChange={(e) =>
+              handleTransportChange(e.target.value as AgentTransportType)
+            }
+          >
+            <option value="copilotStudio">Copilot Studio (live agent)</option>
+            <option value="scripted">Scripted agent (offline)</option>
+          </Select>
+          <HelpText>
+            The scripted agent answers from a local JSON scenario and needs no
+            sign-in or network access.
+          </HelpText>
         </FormGroup>
 
-        <FormGroup>
-          <Label htmlFor="tenantId">Tenant ID *</Label>
-          <Input
-            id="tenantId"
-            type="text"
-            value={formData.tenantId}
-            onChange={(e) => handleInputChange("tenantId", e.target.value)}
-            onKeyDown={(e) => e.stopPropagation()}
-            required
-          />
-          {errors.tenantId && <ErrorText>{errors.tenantId}</ErrorText>}
-        </FormGroup>
-
-        <FormGroup>
-          <Label htmlFor="botIdentifier">Bot Identifier *</Label>
-          <Input
-            id="botIdentifier"
-            type="text"
-            value={formData.botIdentifier}
-            onChange={(e) => handleInputChange("botIdentifier", e.target.value)}
-            onKeyDown={(e) => e.stopPropagation()}
-            required
-          />
-          {errors.botIdentifier && (
-            <ErrorText>{errors.botIdentifier}</ErrorText>
-          )}
-        </FormGroup>
-
-        <FormGroup>
-          <Label htmlFor="environmentId">Environment ID *</Label>
-          <Input
-            id="environmentId"
-            type="text"
-            value={formData.environmentId}
-            onChange={(e) => handleInputChange("environmentId", e.target.value)}
-            onKeyDown={(e) => e.stopPropagation()}
-            required
-          />
-          {errors.environmentId && (
-            <ErrorText>{errors.environmentId}</ErrorText>
-          )}
-        </FormGroup>
+        {isScripted ? (
+          <FormGroup>
+            <Label htmlFor="scenarioId">Scenario</Label>
+            <Select
+              id="scenarioId"
+              value={formData.scenarioId || ""}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, scenarioId: e.target.value }))
+              }
+            >
+              {scriptedScenarios.map((scenario) => (
+                <option key={scenario.id} value={scenario.id}>
+                  {scenario.name}
+                </option>
+              ))}
+            </Select>
+            {selectedScenario?.description && (
+              <HelpText>{selectedScenario.description}</HelpText>
+            )}
+          </FormGroup>
+        ) : (
+          <>
+            <FormGroup>
+              <Label htmlFor="clientId">Client ID *</Label>
+              <Input
+                id="clientId"
+                type="text"
+                value={formData.clientId}
+                onChange={(e) => handleInputChange("clientId", e.target.value)}
+                onKeyDown={(e) => e.stopPropagation()}
+                required
+              />
+              {errors.clientId && <ErrorText>{errors.clientId}</ErrorText>}
+            </FormGroup>
+
+            <FormGroup>
+              <Label htmlFor="tenantId">Tenant *</Label>
+              <Input
+                id="tenantId"
+                type="text"
+                value={formData.tenantId}
+                onChange={(e) => handleInputChange("tenantId", e.target.value)}
+                onKeyDown={(e) => e.stopPropagation()}
+                required
+              />
+              {errors.tenantId ? (
+                <ErrorText>{errors.tenantId}</ErrorText>
+              ) : (
+                <HelpText>
+                  Tenant GUID, a verified domain such as contoso.com, or
+                  "organizations" for multi-tenant apps.
+                </HelpText>
+              )}
+            </FormGroup>
+
+            <FormGroup>
+              <Label htmlFor="connectionMode">Connection Mode</Label>
+              <Select
+                id="connectionMode"
+                value={connectionMode}
+                onChange={(e) =>
+                  handleConnectionModeChange(e.target.value as ConnectionMode)
+                }
+              >
+                <option value="environment">
+                  Environment ID and schema name
+                </option>
+                <option value="directConnect">Direct-connect URL</option>
+              </Select>
+            </FormGroup>
+
+            {connectionMode === "directConnect" ? (
+              <FormGroup>
+                <Label htmlFor="directConnectUrl">Direct-connect URL *</Label>
+                <Input
+                  id="directConnectUrl"
+                  type="url"
+                  value={formData.directConnectUrl || ""}
+                  onChange={(e) =>
+                    handleInputChange("directConnectUrl", e.target.value)
+                  }
+                  onKeyDown={(e) => e.stopPropagation()}
+                  required
+                />
+                {errors.directConnectUrl ? (
+                  <ErrorText>{errors.directConnectUrl}</ErrorText>
+                ) : (
+                  <HelpText>
+                    Copy the URL from Settings → Channels → Web app in Copilot
+                    Studio. The cloud is detected from the URL
+                    {formData.directConnectUrl
+                      ? ` (${cloudProfiles[getEffectiveCloud(formData)].label})`
+                      : ""}
+                    .
+                  </HelpText>
+                )}
+              </FormGroup>
+            ) : (
+              <>
+                <FormGroup>
+                  <Label htmlFor="botIdentifier">Bot Identifier *</Label>
+                  <Input
+                    id="botIdentifier"
+                    type="text"
+                    value={formData.botIdentifier}
+                    onChange={(e) =>
+                      handleInputChange("botIdentifier", e.target.value)
+                    }
+                    onKeyDown={(e) => e.stopPropagation()}
+                    required
+                  />
+                  {errors.botIdentifier && (
+                    <ErrorText>{errors.botIdentifier}</ErrorText>
+                  )}
+                </FormGroup>
+
+                <FormGroup>
+                  <Label htmlFor="environmentId">Environment ID *</Label>
+                  <Input
+                    id="environmentId"
+                    type="text"
+                    value={formData.environmentId}
+                    onChange={(e) =>
+                      handleInputChange("environmentId", e.target.value)
+                    }
+                    onKeyDown={(e) => e.stopPropagation()}
+                    required
+                  />
+                  {errors.environmentId && (
+                    <ErrorText>{errors.environmentId}</ErrorText>
+                  )}
+                </FormGroup>
+
+                <FormGroup>
+                  <Label htmlFor="cloud">Cloud</Label>
+                  <Select
+                    id="cloud"
+                    value={formData.cloud || "public"}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        cloud: e.target.value as AgentCloud,
+                      }))
+                    }
+                  >
+                    {(Object.keys(cloudProfiles) as AgentCloud[]).map(
+                      (cloud) => (
+                        <option key={cloud} value={cloud}>
+                          {cloudProfiles[cloud].label}
+                        </option>
+                      )
+                    )}
+                  </Select>
+                </FormGroup>
+              </>
+            )}
+
+            <FormGroup>
+              <Label htmlFor="authority">Custom Authority</Label>
+              <Input
+                id="authority"
+                type="text"
+                placeholder={getAuthority({ ...formData, authority: "" })}
+                value={formData.authority || ""}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    authority: e.target.value,
+                  }))
+                }
+                onKeyDown={(e) => e.stopPropagation()}
+              />
+              {authorityError ? (
+                <ErrorText>{authorityError}</ErrorText>
+              ) : (
+                <HelpText>
+                  Leave empty to sign in with the selected cloud and tenant.
+                </HelpText>
+              )}
+            </FormGroup>
+
+            <FormGroup>
+              <Label htmlFor="scopes">Custom Scopes</Label>
+              <Input
+                id="scopes"
+                type="text"
+                placeholder={getDefaultScope(getEffectiveCloud(formData))}
+                value={(formData.scopes || []).join(" ")}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    scopes: e.target.value.split(/[\s,]+/),
+                  }))
+                }
+                onKeyDown={(e) => e.stopPropagation()}
+              />
+              <HelpText>
+                Space-separated scopes. Leave empty to use the Power Platform
+                scope of the selected cloud.
+              </HelpText>
+            </FormGroup>
+
+            <FormGroup>
+              <Label htmlFor="authMode">Sign-in Method</Label>
+              <Select
+                id="authMode"
+                value={formData.authMode || "popup"}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    authMode: e.target.value as AuthMode,
+                  }))
+                }
+              >
+                <option value="popup">Popup window</option>
+                <option value="redirect">Full-page redirect</option>
+              </Select>
+              <HelpText>
+                Use redirect in browsers or embedded hosts that block popups.
+                Your pending message is restored after signing in.
+              </HelpText>
+            </FormGroup>
+
+            <FormGroup>
+              <Label htmlFor="tokenRefreshSkewSeconds">
+                Token Refresh Window (seconds)
+              </Label>
+              <Input
+                id="tokenRefreshSkewSeconds"
+                type="number"
+                min={0}
+                placeholder="300"
+                value={formData.tokenRefreshSkewSeconds ?? ""}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    tokenRefreshSkewSeconds:
+                      e.target.value === ""
+                        ? undefined
+                        : Math.max(0, Number(e.target.value)),
+                  }))
+                }
+                onKeyDown={(e) => e.stopPropagation()}
+              />
+              <HelpText>
+                Tokens are refreshed silently this long before they expire.
+              </HelpText>
+            </FormGroup>
+
+            <FormGroup>
+              <Label>Retry Policy</Label>
+              <InlineFields>
+                {retryPolicyFields.map(({ field, label }) => (
+                  <InlineField key={field}>
+                    <HelpText as="label" htmlFor={`retry-${field}`}>
+                      {label}
+                    </HelpText>
+                    <Input
+                      id={`retry-${field}`}
+                      type="number"
+                      min={field === "maxAttempts" ? 1 : 0}
+                      placeholder={String(defaultRetryPolicy[field])}
+                      value={formData.retryPolicy?.[field] ?? ""}
+                      onChange={(e) =>
+                        handleRetryPolicyChange(field, e.target.value)
+                      }
+                      onKeyDown={(e) => e.stopPropagation()}
+                    />
+                  </InlineField>
+                ))}
+              </InlineFields>
+              <HelpText>
+                Network errors, throttling (429) and server errors are retried
+                with exponential backoff. Retry-After from the agent takes
+                precedence.
+              </HelpText>
+            </FormGroup>
+          </>
+        )}
 
         <ButtonGroup>
           <CancelButton type="button" onClick={handleCancel}>
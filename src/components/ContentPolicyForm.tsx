@@ -0,0 +1,142 @@
+/**
+ * Content Policy Form Component
+ *
+ * Edits the content policy applied to agent output: the domains whose links open
+ * without confirmation and whose images always load, and whether other remote
+ * images load, show a placeholder until the user loads them, or are blocked.
+ */
+
+import React, { useState } from "react";
+import styled from "styled-components";
+import { ContentPolicy, RemoteImagePolicy } from "../types/agent";
+import { parseDomainList } from "../services/contentPolicy";
+
+const Form = styled.form`
+  display: flex;
+  flex-direction: column;
+  gap: 16px;
+`;
+
+const Field = styled.label`
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  font-size: 0.9rem;
+  font-weight: 600;
+  color: #343a40;
+`;
+
+const HelperText = styled.span`
+  font-size: 0.8rem;
+  font-weight: 400;
+  color: #6c757d;
+`;
+
+const DomainInput = styled.textarea`
+  min-height: 120px;
+  padding: 8px 12px;
+  border: 1px solid #ced4da;
+  border-radius: 6px;
+  font-family: "Courier New", monospace;
+  font-size: 0.85rem;
+  resize: vertical;
+`;
+
+const ImageSelect = styled.select`
+  padding: 6px 8px;
+  border: 1px solid #ced4da;
+  border-radius: 6px;
+  font-size: 0.9rem;
+`;
+
+const Actions = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 8px;
+`;
+
+const FormButton = styled.button<{ primary?: boolean }>`
+  background: ${(props) => (props.primary ? "#667eea" : "#6c757d")};
+  color: white;
+  border: none;
+  padding: 8px 16px;
+  border-radius: 6px;
+  font-size: 0.9rem;
+  cursor: pointer;
+`;
+
+/**
+ * Props interface for ContentPolicyForm component
+ */
+interface ContentPolicyFormProps {
+  policy: ContentPolicy; // Policy currently applied
+  onSave: (policy: ContentPolicy) => void; // Callback with the edited policy
+  onCancel: () => void; // Callback to close the form without saving
+}
+
+/**
+ * ContentPolicyForm component for editing the content policy
+ * @param props - Component props containing the policy and callbacks
+ * @returns JSX.Element - Content policy form
+ */
+const ContentPolicyForm: React.FC<ContentPolicyFormProps> = ({
+  policy,
+  onSave,
+  onCancel,
+}) => {
+  const [domains, setDomains] = useState<string>(
+    policy.allowedDomains.join("\n")
+  );
+  const [remoteImages, setRemoteImages] = useState<RemoteImagePolicy>(
+    policy.remoteImages
+  );
+
+  /**
+   * Saves the edited policy
+   * @param event - Form submit event
+   */
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSave({ allowedDomains: parseDomainList(domains), remoteImages });
+  };
+
+  return (
+    <Form onSubmit={handleSubmit}>
+      <Field>
+        Allowed domains
+        <HelperText>
+          One domain per line. Links to these domains and their subdomains open
+          in a new tab without confirmation, and their images always load.
+        </HelperText>
+        <DomainInput
+          value={domains}
+          onChange={(e) => setDomains(e.target.value)}
+          placeholder={"microsoft.com\ncontoso.sharepoint.com"}
+        />
+      </Field>
+      <Field>
+        Remote images from other domains
+        <ImageSelect
+          value={remoteImages}
+          onChange={(e) => setRemoteImages(e.target.value as RemoteImagePolicy)}
+        >
+          <option value="placeholder">
+            Show a placeholder until I load them
+          </option>
+          <option value="block">Block</option>
+          <option value="allow">Load</option>
+        </ImageSelect>
+      </Field>
+      <Actions>
+        <FormButton type="button" onClick={onCancel}>
+          Cancel
+        </FormButton>
+        <FormButton type="submit" primary>
+          Save Policy
+        </FormButton>
+      </Actions>
+    </Form>
+  );
+};
+
+export default ContentPolicyForm;
@@ -0,0 +1,228 @@
+/**
+ * Conversation Tabs Component
+ *
+ * Shows the open conversations as tabs. Tabs can be switched, created, renamed
+ * (double-click the title) and closed; a pending indicator marks conversations
+ * that are still waiting for the agent. New conversations use the locale chosen
+ * next to the new conversation button, shown on each tab.
+ */
+
+import React, { useState } from "react";
+import styled from "styled-components";
+import { Conversation } from "../types/agent";
+import { localeOptions } from "../services/locales";
+
+const TabBar = styled.div`
+  display: flex;
+  align-items: flex-end;
+  gap: 4px;
+  border-bottom: 2px solid #e9ecef;
+  margin-bottom: 20px;
+  overflow-x: auto;
+`;
+
+const Tab = styled.div<{ active?: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 8px 12px;
+  border-radius: 8px 8px 0 0;
+  border: 1px solid ${(props) => (props.active ? "#dee2e6" : "transparent")};
+  border-bottom: none;
+  background: ${(props) => (props.active ? "white" : "#f1f3f5")};
+  color: ${(props) => (props.active ? "#343a40" : "#6c757d")};
+  font-weight: ${(props) => (props.active ? 600 : 500)};
+  font-size: 0.9rem;
+  cursor: pointer;
+  white-space: nowrap;
+
+  &:hover {
+    background: ${(props) => (props.active ? "white" : "#e9ecef")};
+  }
+`;
+
+const TabTitleInput = styled.input`
+  border: 1px solid #667eea;
+  border-radius: 4px;
+  padding: 2px 6px;
+  font-size: 0.9rem;
+  width: 140px;
+`;
+
+const PendingDot = styled.span`
+  width: 8px;
+  height: 8px;
+  border-radius: 50%;
+  background: #667eea;
+`;
+
+const CloseButton = styled.button`
+  background: none;
+  border: none;
+  color: #adb5bd;
+  cursor: pointer;
+  padding: 0 2px;
+  font-size: 1rem;
+  line-height: 1;
+
+  &:hover {
+    color: #dc3545;
+  }
+`;
+
+const LocaleTag = styled.span`
+  padding: 1px 6px;
+  border-radius: 8px;
+  background: #e7ebff;
+  color: #495057;
+  font-size: 0.7rem;
+  font-weight: 600;
+`;
+
+const NewTabControls = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 4px;
+`;
+
+const LocaleSelect = styled.select`
+  padding: 6px 8px;
+  border: 1px solid #dee2e6;
+  border-radius: 6px;
+  font-size: 0.8rem;
+  color: #495057;
+  background: white;
+`;
+
+const NewTabButton = styled.button`
+  background: none;
+  border: 1px dashed #adb5bd;
+  border-radius: 8px 8px 0 0;
+  color: #495057;
+  padding: 8px 12px;
+  font-size: 0.9rem;
+  cursor: pointer;
+
+  &:hover {
+    background: #e9ecef;
+  }
+`;
+
+/**
+ * Props interface for ConversationTabs component
+ */
+interface ConversationTabsProps {
+  conversations: Conversation[]; // Open conversations in tab order
+  activeConversationId: string; // Conversation currently shown
+  onSelect: (id: string) => void; // Callback when a tab is clicked
+  onCreate: () => void; // Callback for the new conversation button
+  onRename: (id: string, title: string) => void; // Callback when a title edit is committed
+  onClose: (id: string) => void; // Callback for a tab's close button
+  newConversationLocale: string; // Locale for new conversations, empty for the agent default
+  onNewConversationLocaleChange: (locale: string) => void; // Callback when the locale for new conversations changes
+}
+
+/**
+ * ConversationTabs component for switching between conversations
+ * @param props - Component props containing conversations and callbacks
+ * @returns JSX.Element - Tab bar
+ */
+const ConversationTabs: React.FC<ConversationTabsProps> = ({
+  conversations,
+  activeConversationId,
+  onSelect,
+  onCreate,
+  onRename,
+  onClose,
+  newConversationLocale,
+  onNewConversationLocaleChange,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState<string>("");
+
+  /**
+   * Starts editing the title of a conversation
+   * @param conversation - Conversation to rename
+   */
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  /**
+   * Commits the edited title and leaves edit mode
+   */
+  const commitRename = () => {
+    if (editingId) {
+      onRename(editingId, editingTitle);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <TabBar role="tablist">
+      {conversations.map((conversation) => (
+        <Tab
+          key={conversation.id}
+          role="tab"
+          aria-selected={conversation.id === activeConversationId}
+          active={conversation.id === activeConversationId}
+          onClick={() => onSelect(conversation.id)}
+          onDoubleClick={() => startRename(conversation)}
+          title="Double-click to rename"
+        >
+          {conversation.isPending && <PendingDot title="Waiting for agent" />}
+          {editingId === conversation.id ? (
+            <TabTitleInput
+              autoFocus
+              value={editingTitle}
+              onChange={(e) => setEditingTitle(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commitRename();
+                if (e.key === "Escape") setEditingId(null);
+              }}
+            />
+          ) : (
+            <span>{conversation.title}</span>
+          )}
+          {conversation.locale && (
+            <LocaleTag title="Locale sent with every message">
+              {conversation.locale}
+            </LocaleTag>
+          )}
+          <CloseButton
+            type="button"
+            aria-label={`Close ${conversation.title}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              onClose(conversation.id);
+            }}
+          >
+            ×
+          </CloseButton>
+        </Tab>
+      ))}
+      <NewTabControls>
+        <NewTabButton type="button" onClick={onCreate}>
+          ＋ New conversation
+        </NewTabButton>
+        <LocaleSelect
+          value={newConversationLocale}
+          onChange={(e) => onNewConversationLocaleChange(e.target.value)}
+          aria-label="Locale for new conversations"
+          title="Locale for new conversations"
+        >
+          <option value="">🌐 Agent default</option>
+          {localeOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              🌐 {option.value} · {option.label}
+            </option>
+          ))}
+        </LocaleSelect>
+      </NewTabControls>
+    </TabBar>
+  );
+};
+
+export default ConversationTabs;
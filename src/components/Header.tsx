@@ -2,11 +2,14 @@
  * Application Header Component
  *
  * Displays the application title with glassmorphism styling.
- * Provides visual branding and consistent header layout across the application.
+ * Provides visual branding and consistent header layout across the application,
+ * along with the signed-in user indicator and account switcher.
  */
 
-import React from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import styled from "styled-components";
+import { AccountState } from "../types/agent";
+import { AgentClient } from "../services/agentService";
 
 /**
  * Header container with glassmorphism effect
@@ -18,6 +21,7 @@ const HeaderContainer = styled.header`
   border-bottom: 1px solid rgba(255, 255, 255, 0.2);
   padding: 20px 40px;
   text-align: center;
+  position: relative;
 `;
 
 /**
@@ -44,16 +48,262 @@ const TitleIcon = styled.span`
 `;
 
 /**
- * Header component displaying application title
+ * Account menu anchored to the right side of the header
+ */
+const AccountMenu = styled.div`
+  position: absolute;
+  top: 50%;
+  right: 40px;
+  transform: translateY(-50%);
+  text-align: left;
+
+  @media (max-width: 768px) {
+    position: static;
+    transform: none;
+    display: flex;
+    justify-content: center;
+    margin-top: 12px;
+  }
+`;
+
+/**
+ * Signed-in user indicator that toggles the account dropdown
+ */
+const AccountButton = styled.button`
+  background: rgba(255, 255, 255, 0.2);
+  color: white;
+  border: 1px solid rgba(255, 255, 255, 0.3);
+  padding: 8px 14px;
+  border-radius: 20px;
+  font-size: 0.9rem;
+  font-weight: 600;
+  cursor: pointer;
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  transition: all 0.2s ease;
+
+  &:hover {
+    background: rgba(255, 255, 255, 0.3);
+  }
+
+  &:disabled {
+    opacity: 0.6;
+    cursor: wait;
+  }
+`;
+
+/**
+ * Account indicator shown before an agent client exists
+ */
+const IdleAccount = styled.span`
+  background: rgba(255, 255, 255, 0.1);
+  color: rgba(255, 255, 255, 0.8);
+  border: 1px dashed rgba(255, 255, 255, 0.3);
+  padding: 8px 14px;
+  border-radius: 20px;
+  font-size: 0.9rem;
+  font-weight: 600;
+  display: flex;
+  align-items: center;
+  gap: 8px;
+`;
+
+/**
+ * Dropdown listing signed-in accounts and account actions
+ */
+const AccountDropdown = styled.div`
+  position: absolute;
+  right: 0;
+  top: calc(100% + 8px);
+  background: white;
+  border-radius: 10px;
+  box-shadow: 0 8px 32px rgba(0, 0, 0, 0.2);
+  min-width: 280px;
+  padding: 8px 0;
+  z-index: 1001;
+`;
+
+const DropdownLabel = styled.div`
+  padding: 6px 16px;
+  font-size: 0.75rem;
+  font-weight: 600;
+  color: #6c757d;
+  text-transform: uppercase;
+`;
+
+const DropdownItem = styled.button<{ active?: boolean }>`
+  width: 100%;
+  background: ${(props) => (props.active ? "#f1f3ff" : "none")};
+  border: none;
+  padding: 10px 16px;
+  text-align: left;
+  cursor: pointer;
+  color: #343a40;
+  font-size: 0.9rem;
+  display: flex;
+  flex-direction: column;
+  gap: 2px;
+
+  &:hover {
+    background: #f8f9fa;
+  }
+`;
+
+const AccountUsername = styled.span`
+  font-size: 0.8rem;
+  color: #6c757d;
+`;
+
+const DropdownDivider = styled.div`
+  height: 1px;
+  background: #dee2e6;
+  margin: 8px 0;
+`;
+
+const DropdownError = styled.div`
+  padding: 8px 16px;
+  color: #dc3545;
+  font-size: 0.8rem;
+`;
+
+/**
+ * Props interface for Header component
+ */
+interface HeaderProps {
+  agentClient?: AgentClient | null; // Agent client whose accounts are shown
+}
+
+/**
+ * Header component displaying application title and account switcher
+ * @param props - Component props containing the agent client
  * @returns JSX.Element - Header with title and branding
  */
-const Header: React.FC = () => {
+const Header: React.FC<HeaderProps> = ({ agentClient }) => {
+  const [accountState, setAccountState] = useState<AccountState>({
+    accounts: [],
+    activeAccountId: null,
+  });
+  const [menuOpen, setMenuOpen] = useState<boolean>(false);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [accountError, setAccountError] = useState<string>("");
+
+  /**
+   * Reloads signed-in accounts from the agent client
+   */
+  const refreshAccounts = useCallback(async () => {
+    if (!agentClient) return;
+    setAccountState(await agentClient.getAccountState());
+  }, [agentClient]);
+
+  // Load accounts and keep them in sync with sign-in changes
+  useEffect(() => {
+    if (!agentClient || !agentClient.usesAuthentication()) {
+      setAccountState({ accounts: [], activeAccountId: null });
+      return;
+    }
+
+    refreshAccounts();
+    return agentClient.onAccountsChanged(refreshAccounts);
+  }, [agentClient, refreshAccounts]);
+
+  /**
+   * Runs an account action, closing the menu and surfacing failures
+   * @param action - Account action to run
+   */
+  const runAccountAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setAccountError("");
+    try {
+      await action();
+      setMenuOpen(false);
+    } catch (error) {
+      setAccountError(
+        error instanceof Error ? error.message : "Account action failed"
+      );
+    } finally {
+      setBusy(false);
+      refreshAccounts();
+    }
+  };
+
+  const activeAccount = accountState.accounts.find(
+    (account) => account.homeAccountId === accountState.activeAccountId
+  );
+
   return (
     <HeaderContainer>
       <Title>
         <TitleIcon>🤖</TitleIcon>
         Microsoft 365 Agent SDK
       </Title>
+
+      {!agentClient && (
+        <AccountMenu>
+          <IdleAccount title="Sign-in starts with the first request to the agent">
+            👤 Not connected
+          </IdleAccount>
+        </AccountMenu>
+      )}
+
+      {agentClient && agentClient.usesAuthentication() && (
+        <AccountMenu>
+          <AccountButton
+            onClick={() => setMenuOpen((open) => !open)}
+            disabled={busy}
+            title={activeAccount?.username}
+          >
+            👤{" "}
+            {activeAccount?.name || activeAccount?.username || "Not signed in"}{" "}
+            ▾
+          </AccountButton>
+
+          {menuOpen && (
+            <AccountDropdown>
+              <DropdownLabel>Signed-in accounts</DropdownLabel>
+              {accountState.accounts.length === 0 && (
+                <DropdownItem disabled>No accounts signed in</DropdownItem>
+              )}
+              {accountState.accounts.map((account) => (
+                <DropdownItem
+                  key={account.homeAccountId}
+                  active={
+                    account.homeAccountId === accountState.activeAccountId
+                  }
+                  onClick={() =>
+                    runAccountAction(() =>
+                      agentClient.switchAccount(account.homeAccountId)
+                    )
+                  }
+                >
+                  <span>
+                    {account.homeAccountId === accountState.activeAccountId
+                      ? "✅ "
+                      : ""}
+                    {account.name || account.username}
+                  </span>
+                  <AccountUsername>{account.username}</AccountUsername>
+                </DropdownItem>
+              ))}
+
+              <DropdownDivider />
+              <DropdownItem
+                onClick={() => runAccountAction(() => agentClient.addAccount())}
+              >
+                ➕ Add another account
+              </DropdownItem>
+              {activeAccount && (
+                <DropdownItem
+                  onClick={() => runAccountAction(() => agentClient.signOut())}
+                >
+                  🚪 Sign out
+                </DropdownItem>
+              )}
+              {accountError && <DropdownError>{accountError}</DropdownError>}
+            </AccountDropdown>
+          )}
+        </AccountMenu>
+      )}
     </HeaderContainer>
   );
 };
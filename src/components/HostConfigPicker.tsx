@@ -0,0 +1,185 @@
+/**
+ * Host Config Picker Component
+ *
+ * Chooses the host config Adaptive Cards are rendered with, so cards can be seen
+ * as they will look in Copilot Studio web chat, Teams or Outlook. The custom
+ * option takes a host config pasted as JSON, which is checked before it is used.
+ */
+
+import React, { useState } from "react";
+import styled from "styled-components";
+import { CardHostSettings, HostConfigThemeId } from "../types/agent";
+import {
+  hostConfigThemes,
+  parseCustomHostConfig,
+} from "../services/hostConfigs";
+import Modal from "./Modal";
+
+const Picker = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-size: 0.8rem;
+  font-weight: 500;
+  color: #495057;
+`;
+
+const ThemeSelect = styled.select`
+  padding: 4px 8px;
+  border: 1px solid #dee2e6;
+  border-radius: 6px;
+  font-size: 0.8rem;
+  background: white;
+`;
+
+const PickerButton = styled.button`
+  background: white;
+  border: 1px solid #dee2e6;
+  color: #495057;
+  padding: 4px 10px;
+  border-radius: 6px;
+  font-size: 0.8rem;
+  cursor: pointer;
+
+  &:hover {
+    background: #e9ecef;
+  }
+`;
+
+const JsonInput = styled.textarea`
+  width: 100%;
+  min-height: 320px;
+  padding: 8px 12px;
+  border: 1px solid #ced4da;
+  border-radius: 6px;
+  font-family: "Courier New", monospace;
+  font-size: 0.8rem;
+  resize: vertical;
+  box-sizing: border-box;
+`;
+
+const JsonError = styled.div`
+  margin-top: 8px;
+  color: #721c24;
+  font-size: 0.85rem;
+`;
+
+const Actions = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 8px;
+  margin-top: 16px;
+`;
+
+const FormButton = styled.button<{ primary?: boolean }>`
+  background: ${(props) => (props.primary ? "#667eea" : "#6c757d")};
+  color: white;
+  border: none;
+  padding: 8px 16px;
+  border-radius: 6px;
+  font-size: 0.9rem;
+  cursor: pointer;
+`;
+
+/**
+ * Props interface for HostConfigPicker component
+ */
+interface HostConfigPickerProps {
+  settings: CardHostSettings; // Host config currently applied
+  onChange: (settings: CardHostSettings) => void; // Callback with the chosen host config
+}
+
+/**
+ * HostConfigPicker component for choosing how cards are rendered
+ * @param props - Component props containing the current choice and callback
+ * @returns JSX.Element - Host config select with the custom JSON editor
+ */
+const HostConfigPicker: React.FC<HostConfigPickerProps> = ({
+  settings,
+  onChange,
+}) => {
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [draft, setDraft] = useState<string>("");
+  const [jsonError, setJsonError] = useState<string>("");
+
+  /**
+   * Opens the editor for the custom host config
+   */
+  const openEditor = () => {
+    setDraft(settings.customHostConfig);
+    setJsonError("");
+    setIsEditing(true);
+  };
+
+  /**
+   * Switches to another host config; the custom one is edited before it is used
+   * @param themeId - Chosen host config
+   */
+  const handleThemeChange = (themeId: HostConfigThemeId) => {
+    if (themeId === "custom") {
+      openEditor();
+    } else {
+      onChange({ ...settings, themeId });
+    }
+  };
+
+  /**
+   * Applies the edited custom host config if it is valid JSON
+   */
+  const handleSaveCustom = () => {
+    try {
+      parseCustomHostConfig(draft);
+    } catch (error: any) {
+      setJsonError(error.message);
+      return;
+    }
+    onChange({ themeId: "custom", customHostConfig: draft });
+    setIsEditing(false);
+  };
+
+  return (
+    <Picker>
+      <label htmlFor="host-config-theme">🎨 Card host</label>
+      <ThemeSelect
+        id="host-config-theme"
+        value={settings.themeId}
+        onChange={(e) => handleThemeChange(e.target.value as HostConfigThemeId)}
+      >
+        {hostConfigThemes.map((theme) => (
+          <option key={theme.id} value={theme.id}>
+            {theme.name}
+          </option>
+        ))}
+        <option value="custom">Custom JSON…</option>
+      </ThemeSelect>
+      {settings.themeId === "custom" && (
+        <PickerButton type="button" onClick={openEditor}>
+          Edit JSON
+        </PickerButton>
+      )}
+
+      <Modal
+        isOpen={isEditing}
+        onClose={() => setIsEditing(false)}
+        title="Custom Host Config"
+      >
+        <JsonInput
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          spellCheck={false}
+        />
+        {jsonError && <JsonError>⚠️ {jsonError}</JsonError>}
+        <Actions>
+          <FormButton type="button" onClick={() => setIsEditing(false)}>
+            Cancel
+          </FormButton>
+          <FormButton type="button" primary onClick={handleSaveCustom}>
+            Apply Host Config
+          </FormButton>
+        </Actions>
+      </Modal>
+    </Picker>
+  );
+};
+
+export default HostConfigPicker;
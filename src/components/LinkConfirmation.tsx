@@ -0,0 +1,98 @@
+/**
+ * Link Confirmation Component
+ *
+ * Shown before following a link to a domain that is not on the content policy's
+ * allowlist. Displays the full target URL so the user can check where the link
+ * really goes, and lets them open it once or add its domain to the allowlist.
+ * Links with schemes that cannot be navigated to, such as `javascript:`, are
+ * shown but cannot be opened.
+ */
+
+import React from "react";
+import styled from "styled-components";
+
+const Message = styled.p`
+  margin: 0 0 12px 0;
+  font-size: 0.9rem;
+  color: #495057;
+`;
+
+const TargetUrl = styled.div`
+  padding: 10px 12px;
+  background: #f8f9fa;
+  border: 1px solid #dee2e6;
+  border-radius: 6px;
+  font-family: "Courier New", monospace;
+  font-size: 0.85rem;
+  word-break: break-all;
+  color: #212529;
+`;
+
+const Actions = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 8px;
+  margin-top: 16px;
+`;
+
+const ActionButton = styled.button<{ primary?: boolean }>`
+  background: ${(props) => (props.primary ? "#667eea" : "#6c757d")};
+  color: white;
+  border: none;
+  padding: 8px 16px;
+  border-radius: 6px;
+  font-size: 0.9rem;
+  cursor: pointer;
+`;
+
+/**
+ * Props interface for LinkConfirmation component
+ */
+interface LinkConfirmationProps {
+  url: string; // Full target URL of the link
+  host: string | null; // Domain of the link, or null if it has none
+  isNavigable: boolean; // Whether the link's scheme may be opened at all
+  onOpen: () => void; // Callback to open the link once
+  onAllowDomain: () => void; // Callback to allow the link's domain and open it
+  onCancel: () => void; // Callback to close without opening
+}
+
+/**
+ * LinkConfirmation component for links outside the allowlist
+ * @param props - Component props containing the link and callbacks
+ * @returns JSX.Element - Confirmation with the full URL
+ */
+const LinkConfirmation: React.FC<LinkConfirmationProps> = ({
+  url,
+  host,
+  isNavigable,
+  onOpen,
+  onAllowDomain,
+  onCancel,
+}) => (
+  <div>
+    <Message>
+      {isNavigable
+        ? "This link leads to a domain that is not on the allowlist. Check the full address before opening it:"
+        : "This link uses a scheme that cannot be opened and was blocked:"}
+    </Message>
+    <TargetUrl>{url}</TargetUrl>
+    <Actions>
+      <ActionButton type="button" onClick={onCancel}>
+        Cancel
+      </ActionButton>
+      {isNavigable && host && (
+        <ActionButton type="button" onClick={onAllowDomain}>
+          Allow {host} &amp; open
+        </ActionButton>
+      )}
+      {isNavigable && (
+        <ActionButton type="button" primary onClick={onOpen}>
+          Open in new tab
+        </ActionButton>
+      )}
+    </Actions>
+  </div>
+);
+
+export default LinkConfirmation;
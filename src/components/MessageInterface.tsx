@@ -3,11 +3,22 @@
  *
  * Provides user input interface for sending messages to agents.
  * Includes text area, character counter, send button, and quick action buttons.
+ * Files can be attached by drag-and-drop, paste, or the file picker, and are
+ * previewed and removable before sending.
  * Handles form submission and message state management.
  */
 
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import styled from "styled-components";
+import AttachmentList from "./AttachmentList";
+import { ActivityAttachment } from "../types/agent";
+import {
+  formatFileSize,
+  maxAttachmentBytes,
+  maxAttachmentCount,
+  readAttachments,
+} from "../services/attachments";
+import { localeOptions } from "../services/locales";
 
 const Container = styled.div`
   display: flex;
@@ -47,6 +58,12 @@ const TextArea = styled.textarea`
     color: #6c757d;
     cursor: not-allowed;
   }
+
+  &.dragging {
+    border-color: #667eea;
+    border-style: dashed;
+    background: #f0f3ff;
+  }
 `;
 
 const SendButton = styled.button`
@@ -78,12 +95,76 @@ const SendButton = styled.button`
   }
 `;
 
+const ButtonRow = styled.div`
+  display: flex;
+  gap: 10px;
+`;
+
+const StopButton = styled.button`
+  background: #dc3545;
+  color: white;
+  border: none;
+  padding: 14px 24px;
+  border-radius: 8px;
+  font-size: 1rem;
+  font-weight: 600;
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover {
+    background: #c82333;
+  }
+`;
+
+const AttachButton = styled.button`
+  background: #f8f9fa;
+  border: 1px solid #dee2e6;
+  color: #495057;
+  padding: 14px 18px;
+  border-radius: 8px;
+  font-size: 1rem;
+  cursor: pointer;
+
+  &:hover:not(:disabled) {
+    background: #e9ecef;
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const LocaleSelect = styled.select`
+  max-width: 200px;
+  padding: 0 10px;
+  border: 1px solid #dee2e6;
+  border-radius: 8px;
+  background: #f8f9fa;
+  color: #495057;
+  font-size: 0.9rem;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
 const CharacterCount = styled.div`
   font-size: 0.8rem;
   color: #6c757d;
   text-align: right;
 `;
 
+const AttachmentErrors = styled.div`
+  background: #fff3cd;
+  color: #856404;
+  padding: 8px 12px;
+  border-radius: 6px;
+  border: 1px solid #ffeeba;
+  font-size: 0.85rem;
+`;
+
 const QuickActions = styled.div`
   display: flex;
   flex-wrap: wrap;
@@ -140,9 +221,16 @@ const LastMessageText = styled.p`
  * Props interface for MessageInterface component
  */
 interface MessageInterfaceProps {
-  onSendMessage: (message: string) => void; // Callback for message submission
+  onSendMessage: (
+    message: string,
+    attachments: ActivityAttachment[],
+    locale?: string
+  ) => void; // Callback for message submission; locale overrides the conversation's locale
+  onStop?: () => void; // Optional callback that cancels the message being sent
   disabled: boolean; // Whether input is disabled
   currentMessage: string; // Currently displayed message
+  draftMessage?: string; // Message to restore into the input, e.g. after a sign-in redirect
+  conversationLocale?: string; // Locale of the current conversation, shown as the default
 }
 
 /**
@@ -152,10 +240,25 @@ interface MessageInterfaceProps {
  */
 const MessageInterface: React.FC<MessageInterfaceProps> = ({
   onSendMessage,
+  onStop,
   disabled,
   currentMessage,
+  draftMessage,
+  conversationLocale,
 }) => {
   const [message, setMessage] = useState("");
+  const [attachments, setAttachments] = useState<ActivityAttachment[]>([]);
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [localeOverride, setLocaleOverride] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Restore a draft message provided by the parent
+  useEffect(() => {
+    if (draftMessage) {
+      setMessage(draftMessage);
+    }
+  }, [draftMessage]);
 
   /**
    * Handles form submission and message sending
@@ -163,9 +266,55 @@ const MessageInterface: React.FC<MessageInterfaceProps> = ({
    */
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (message.trim() && !disabled) {
-      onSendMessage(message.trim());
+    if ((message.trim() || attachments.length > 0) && !disabled) {
+      onSendMessage(message.trim(), attachments, localeOverride || undefined);
       setMessage("");
+      setAttachments([]);
+      setAttachmentErrors([]);
+    }
+  };
+
+  /**
+   * Adds files to the attachments, reporting files over the limits
+   * @param files - Files picked, dropped, or pasted by the user
+   */
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    const result = await readAttachments(files, attachments.length);
+    setAttachments((previous) => [...previous, ...result.attachments]);
+    setAttachmentErrors(result.errors);
+  };
+
+  /**
+   * Removes an attachment before sending
+   * @param index - Position of the attachment to remove
+   */
+  const removeAttachment = (index: number) => {
+    setAttachments((previous) => previous.filter((_, i) => i !== index));
+  };
+
+  /**
+   * Attaches files pasted into the text area, such as screenshots
+   * @param e - Clipboard event
+   */
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  /**
+   * Attaches files dropped onto the message form
+   * @param e - Drag event
+   */
+  const handleDrop = (e: React.DragEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!disabled) {
+      addFiles(Array.from(e.dataTransfer.files));
     }
   };
 
@@ -187,18 +336,85 @@ const MessageInterface: React.FC<MessageInterfaceProps> = ({
 
   return (
     <Container>
-      <MessageForm onSubmit={handleSubmit}>
+      <MessageForm
+        onSubmit={handleSubmit}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
         <TextArea
+          className={isDragging ? "dragging" : undefined}
           value={message}
           onChange={(e) => setMessage(e.target.value)}
-          placeholder="Type your message here..."
+          onPaste={handlePaste}
+          placeholder="Type your message here, or drop or paste files to attach them..."
           disabled={disabled}
           maxLength={1000}
         />
         <CharacterCount>{message.length}/1000 characters</CharacterCount>
-        <SendButton type="submit" disabled={disabled || !message.trim()}>
-          {disabled ? "Sending..." : "Send Message"}
-        </SendButton>
+        {attachments.length > 0 && (
+          <AttachmentList
+            attachments={attachments}
+            onRemove={removeAttachment}
+          />
+        )}
+        {attachmentErrors.length > 0 && (
+          <AttachmentErrors>
+            {attachmentErrors.map((attachmentError, index) => (
+              <div key={index}>⚠️ {attachmentError}</div>
+            ))}
+          </AttachmentErrors>
+        )}
+        <ButtonRow>
+          <SendButton
+            type="submit"
+            disabled={disabled || (!message.trim() && attachments.length === 0)}
+          >
+            {disabled ? "Sending..." : "Send Message"}
+          </SendButton>
+          <AttachButton
+            type="button"
+            disabled={disabled || attachments.length >= maxAttachmentCount}
+            onClick={() => fileInputRef.current?.click()}
+            title={`Attach up to ${maxAttachmentCount} files of at most ${formatFileSize(
+              maxAttachmentBytes
+            )} each`}
+          >
+            📎 Attach
+          </AttachButton>
+          <LocaleSelect
+            value={localeOverride}
+            disabled={disabled}
+            onChange={(e) => setLocaleOverride(e.target.value)}
+            aria-label="Locale for this message"
+            title="Locale for this message"
+          >
+            <option value="">🌐 {conversationLocale || "Agent default"}</option>
+            {localeOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                🌐 {option.value} · {option.label}
+              </option>
+            ))}
+          </LocaleSelect>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            style={{ display: "none" }}
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files || []));
+              e.target.value = "";
+            }}
+          />
+          {disabled && onStop && (
+            <StopButton type="button" onClick={onStop}>
+              ⏹️ Stop
+            </StopButton>
+          )}
+        </ButtonRow>
       </MessageForm>
 
       <div>
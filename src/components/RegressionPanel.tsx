@@ -0,0 +1,353 @@
+/**
+ * Regression Panel Component
+ *
+ * Lists the saved regression baselines and replays one of them against a chosen
+ * configuration. The run report shows every turn as passed, failed, skipped or
+ * errored, with the expected and actual values of each field that changed.
+ */
+
+import React, { useState } from "react";
+import styled from "styled-components";
+import {
+  RegressionBaseline,
+  RegressionField,
+  RegressionRunReport,
+  RegressionTurnResult,
+} from "../types/agent";
+
+const PanelContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 16px;
+`;
+
+const TargetRow = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  font-size: 0.85rem;
+  color: #495057;
+`;
+
+const TargetSelect = styled.select`
+  flex: 1;
+  padding: 6px 8px;
+  border: 1px solid #ced4da;
+  border-radius: 4px;
+`;
+
+const BaselineRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  padding: 12px 16px;
+  border: 1px solid #dee2e6;
+  border-radius: 8px;
+  background: #f8f9fa;
+`;
+
+const BaselineInfo = styled.div`
+  flex: 1;
+  min-width: 0;
+`;
+
+const BaselineTitle = styled.div`
+  font-weight: 600;
+  color: #343a40;
+`;
+
+const BaselineDetails = styled.div`
+  font-size: 0.8rem;
+  color: #6c757d;
+`;
+
+const RowButton = styled.button<{ danger?: boolean }>`
+  background: ${(props) => (props.danger ? "#dc3545" : "#667eea")};
+  color: white;
+  border: none;
+  padding: 6px 12px;
+  border-radius: 6px;
+  font-size: 0.85rem;
+  cursor: pointer;
+
+  &:disabled {
+    background: #adb5bd;
+    cursor: not-allowed;
+  }
+`;
+
+const EmptyText = styled.div`
+  text-align: center;
+  color: #6c757d;
+  font-style: italic;
+  padding: 20px;
+`;
+
+const ReportHeader = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  padding-top: 16px;
+  border-top: 1px solid #dee2e6;
+`;
+
+const ReportTitle = styled.h3`
+  flex: 1;
+  margin: 0;
+  font-size: 1.1rem;
+  color: #343a40;
+`;
+
+const ReportSummary = styled.div`
+  font-size: 0.85rem;
+  color: #495057;
+`;
+
+const turnStatusStyles: Record<
+  RegressionTurnResult["status"],
+  { label: string; color: string; background: string }
+> = {
+  passed: { label: "✅ Passed", color: "#155724", background: "#d4edda" },
+  failed: { label: "❌ Failed", color: "#721c24", background: "#f8d7da" },
+  error: { label: "⚠️ Error", color: "#856404", background: "#fff3cd" },
+  skipped: { label: "⏭️ Skipped", color: "#495057", background: "#e9ecef" },
+};
+
+const TurnCard = styled.div`
+  border: 1px solid #dee2e6;
+  border-radius: 8px;
+  padding: 12px 16px;
+`;
+
+const TurnHeader = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+`;
+
+const TurnMessage = styled.div`
+  flex: 1;
+  min-width: 0;
+  font-weight: 500;
+  color: #343a40;
+  word-break: break-word;
+`;
+
+const StatusBadge = styled.span`
+  padding: 2px 10px;
+  border-radius: 10px;
+  font-size: 0.75rem;
+  font-weight: 600;
+  white-space: nowrap;
+  color: ${({ status }: { status: RegressionTurnResult["status"] }) =>
+    turnStatusStyles[status].color};
+  background: ${({ status }: { status: RegressionTurnResult["status"] }) =>
+    turnStatusStyles[status].background};
+`;
+
+const TurnNote = styled.div`
+  margin-top: 6px;
+  font-size: 0.8rem;
+  color: #6c757d;
+`;
+
+const DifferenceLabel = styled.div`
+  margin-top: 12px;
+  font-size: 0.75rem;
+  font-weight: 600;
+  color: #6c757d;
+`;
+
+const DifferenceGrid = styled.div`
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: 8px;
+`;
+
+const DifferenceValue = styled.pre`
+  margin: 4px 0 0 0;
+  padding: 8px;
+  max-height: 200px;
+  overflow: auto;
+  background: #f8f9fa;
+  border: 1px solid #e9ecef;
+  border-radius: 4px;
+  font-size: 0.75rem;
+  white-space: pre-wrap;
+  word-break: break-word;
+`;
+
+const fieldLabels: Record<RegressionField, string> = {
+  text: "TEXT",
+  adaptiveCards: "ADAPTIVE CARDS",
+  suggestedActions: "SUGGESTED ACTIONS",
+  activitiesCount: "ACTIVITY COUNT",
+};
+
+/**
+ * Configuration a baseline can be replayed against
+ */
+export interface RegressionTarget {
+  id: string;
+  label: string;
+}
+
+/**
+ * Props interface for RegressionPanel component
+ */
+interface RegressionPanelProps {
+  baselines: RegressionBaseline[]; // Saved baselines, most recent first
+  targets: RegressionTarget[]; // Configurations to choose from
+  report: RegressionRunReport | null; // Report of the current or last run
+  isRunning: boolean; // Whether a run is in progress
+  onRun: (baseline: RegressionBaseline, targetId: string) => void; // Callback to replay a baseline
+  onStop: () => void; // Callback to stop the running replay
+  onDelete: (id: string) => void; // Callback to delete a baseline
+}
+
+/**
+ * RegressionPanel component for replaying baselines and reading run reports
+ * @param props - Component props containing baselines, report and callbacks
+ * @returns JSX.Element - Baseline list and run report
+ */
+const RegressionPanel: React.FC<RegressionPanelProps> = ({
+  baselines,
+  targets,
+  report,
+  isRunning,
+  onRun,
+  onStop,
+  onDelete,
+}) => {
+  const [targetId, setTargetId] = useState<string>(targets[0]?.id || "");
+
+  /**
+   * Counts the report turns with a given status
+   * @param status - Status to count
+   * @returns number - Number of matching turns
+   */
+  const countTurns = (status: RegressionTurnResult["status"]): number =>
+    report ? report.turns.filter((turn) => turn.status === status).length : 0;
+
+  return (
+    <PanelContainer>
+      <TargetRow>
+        Run against
+        <TargetSelect
+          value={targetId}
+          disabled={isRunning}
+          onChange={(e) => setTargetId(e.target.value)}
+        >
+          {targets.map((target) => (
+            <option key={target.id} value={target.id}>
+              {target.label}
+            </option>
+          ))}
+        </TargetSelect>
+      </TargetRow>
+
+      {baselines.length === 0 ? (
+        <EmptyText>
+          No baselines yet. Use "📌 Baseline" in the conversation history to
+          mark a recorded conversation.
+        </EmptyText>
+      ) : (
+        baselines.map((baseline) => (
+          <BaselineRow key={baseline.id}>
+            <BaselineInfo>
+              <BaselineTitle>{baseline.name}</BaselineTitle>
+              <BaselineDetails>
+                {baseline.history.length}{" "}
+                {baseline.history.length === 1 ? "turn" : "turns"} · recorded{" "}
+                {new Date(baseline.createdAt).toLocaleString()}
+              </BaselineDetails>
+            </BaselineInfo>
+            <RowButton
+              type="button"
+              disabled={isRunning}
+              onClick={() => onRun(baseline, targetId)}
+            >
+              ▶️ Run
+            </RowButton>
+            <RowButton
+              type="button"
+              danger
+              disabled={isRunning}
+              onClick={() => onDelete(baseline.id)}
+            >
+              Delete
+            </RowButton>
+          </BaselineRow>
+        ))
+      )}
+
+      {report && (
+        <>
+          <ReportHeader>
+            <ReportTitle>
+              {report.baselineName} → {report.target}
+            </ReportTitle>
+            {isRunning && (
+              <RowButton type="button" danger onClick={onStop}>
+                ⏹️ Stop
+              </RowButton>
+            )}
+          </ReportHeader>
+          <ReportSummary>
+            {countTurns("passed")} passed · {countTurns("failed")} failed ·{" "}
+            {countTurns("error")} errors · {countTurns("skipped")} skipped
+            {isRunning
+              ? ` · running turn ${report.turns.length + 1}…`
+              : report.aborted
+              ? " · stopped"
+              : ""}
+            {report.finishedAt &&
+              ` · ${(
+                (new Date(report.finishedAt).getTime() -
+                  new Date(report.startedAt).getTime()) /
+                1000
+              ).toFixed(1)}s`}
+          </ReportSummary>
+
+          {report.turns.map((turn) => (
+            <TurnCard key={turn.index}>
+              <TurnHeader>
+                <TurnMessage>
+                  {turn.index + 1}. {turn.message || "(no message)"}
+                </TurnMessage>
+                {turn.response?.metadata?.duration !== undefined && (
+                  <BaselineDetails>
+                    {turn.response.metadata.duration}ms
+                  </BaselineDetails>
+                )}
+                <StatusBadge status={turn.status}>
+                  {turnStatusStyles[turn.status].label}
+                </StatusBadge>
+              </TurnHeader>
+              {turn.note && <TurnNote>{turn.note}</TurnNote>}
+              {turn.differences.map((difference) => (
+                <div key={difference.field}>
+                  <DifferenceLabel>
+                    {fieldLabels[difference.field]}
+                  </DifferenceLabel>
+                  <DifferenceGrid>
+                    <div>
+                      <BaselineDetails>Baseline</BaselineDetails>
+                      <DifferenceValue>{difference.expected}</DifferenceValue>
+                    </div>
+                    <div>
+                      <BaselineDetails>Replay</BaselineDetails>
+                      <DifferenceValue>{difference.actual}</DifferenceValue>
+                    </div>
+                  </DifferenceGrid>
+                </div>
+              ))}
+            </TurnCard>
+          ))}
+        </>
+      )}
+    </PanelContainer>
+  );
+};
+
+export default RegressionPanel;
@@ -0,0 +1,75 @@
+/**
+ * Remote Image Notice Component
+ *
+ * Tells the user how many remote images the content policy kept from loading in a
+ * message or card. When the policy shows placeholders, the notice offers to load
+ * the images; when it blocks them, the images stay hidden.
+ */
+
+import React from "react";
+import styled from "styled-components";
+import { RemoteImagePolicy } from "../types/agent";
+
+const Notice = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  margin: 8px 0;
+  padding: 6px 10px;
+  background: #fff8e1;
+  border: 1px solid #ffe08a;
+  border-radius: 6px;
+  font-size: 0.8rem;
+  color: #856404;
+`;
+
+const LoadButton = styled.button`
+  margin-left: auto;
+  padding: 2px 10px;
+  border: 1px solid #856404;
+  border-radius: 4px;
+  background: white;
+  color: #856404;
+  font-size: 0.8rem;
+  cursor: pointer;
+
+  &:hover {
+    background: #fff3cd;
+  }
+`;
+
+/**
+ * Props interface for RemoteImageNotice component
+ */
+interface RemoteImageNoticeProps {
+  hiddenImages: number; // Number of images the policy kept from loading
+  mode: RemoteImagePolicy; // Policy for remote images
+  onLoadImages: () => void; // Callback to load the hidden images
+}
+
+/**
+ * RemoteImageNotice component for content with hidden images
+ * @param props - Component props containing the hidden image count and policy
+ * @returns JSX.Element | null - Notice, or nothing when no image was hidden
+ */
+const RemoteImageNotice: React.FC<RemoteImageNoticeProps> = ({
+  hiddenImages,
+  mode,
+  onLoadImages,
+}) => {
+  if (hiddenImages === 0) return null;
+
+  return (
+    <Notice role="status">
+      🖼️ {hiddenImages} remote {hiddenImages === 1 ? "image" : "images"}{" "}
+      {mode === "block" ? "blocked" : "hidden"} by the content policy
+      {mode === "placeholder" && (
+        <LoadButton type="button" onClick={onLoadImages}>
+          Load images
+        </LoadButton>
+      )}
+    </Notice>
+  );
+};
+
+export default RemoteImageNotice;
@@ -0,0 +1,77 @@
+/**
+ * Removed Content Notice Component
+ *
+ * Tells the user that the sanitizer changed a message or card before showing it,
+ * and lists what was removed, such as script elements, event handlers or
+ * `javascript:` URLs, so that a tester knows the rendering differs from what the
+ * agent sent. The raw activities remain available in the response data.
+ */
+
+import React from "react";
+import styled from "styled-components";
+
+const Notice = styled.details`
+  margin: 8px 0;
+  padding: 6px 10px;
+  background: #fdecea;
+  border: 1px solid #f5c6cb;
+  border-radius: 6px;
+  font-size: 0.8rem;
+  color: #721c24;
+`;
+
+const NoticeSummary = styled.summary`
+  cursor: pointer;
+  font-weight: 600;
+`;
+
+const RemovedList = styled.ul`
+  margin: 6px 0 0 0;
+  padding-left: 20px;
+  font-family: monospace;
+`;
+
+/**
+ * Props interface for RemovedContentNotice component
+ */
+interface RemovedContentNoticeProps {
+  removed: string[]; // One description per removed tag, attribute or URL
+}
+
+/**
+ * RemovedContentNotice component for sanitized content
+ * @param props - Component props containing what was removed
+ * @returns JSX.Element | null - Notice, or nothing when nothing was removed
+ */
+const RemovedContentNotice: React.FC<RemovedContentNoticeProps> = ({
+  removed,
+}) => {
+  if (removed.length === 0) return null;
+
+  // Group repeated removals, keeping the order in which they were found
+  const counts: Record<string, number> = {};
+  const descriptions: string[] = [];
+  removed.forEach((description) => {
+    if (!counts[description]) descriptions.push(description);
+    counts[description] = (counts[description] || 0) + 1;
+  });
+
+  return (
+    <Notice role="status">
+      <NoticeSummary>
+        ⚠️ Unsafe content removed ({removed.length}{" "}
+        {removed.length === 1 ? "item" : "items"})
+      </NoticeSummary>
+      <RemovedList>
+        {descriptions.map((description) => (
+          <li key={description}>
+            {description}
+            {counts[description] > 1 && ` ×${counts[description]}`}
+          </li>
+        ))}
+      </RemovedList>
+    </Notice>
+  );
+};
+
+export default RemovedContentNotice;
@@ -6,14 +6,39 @@
  * and comprehensive response visualization.
  */
 
-import React from "react";
+import React, { useEffect, useRef, useState } from "react";
 import styled from "styled-components";
 import SyntaxHighlighter from "react-syntax-highlighter";
 import { tomorrow } from "react-syntax-highlighter/dist/esm/styles/hljs";
-import { AgentResponse } from "../types/agent";
+import {
+  AgentResponse,
+  CardExecuteAction,
+  ContentPolicy,
+  OutgoingActivity,
+} from "../types/agent";
+import { createCardSubmitActivity } from "../services/outgoingActivity";
+import {
+  findUnsafeMarkdownUrls,
+  markdownAllowedElements,
+  sanitizeHtml,
+  sanitizeMarkdownUrl,
+} from "../services/htmlSanitizer";
+import {
+  countMarkdownImages,
+  getLinkTarget,
+  isAllowedUrl,
+  isBlockedImage,
+} from "../services/contentPolicy";
+import {
+  getRefreshAction,
+  isAutoRefreshUser,
+} from "../services/universalActions";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import ActivityTimeline from "./ActivityTimeline";
 import AdaptiveCardRenderer from "./AdaptiveCardRenderer";
+import RemoteImageNotice from "./RemoteImageNotice";
+import RemovedContentNotice from "./RemovedContentNotice";
 
 const Container = styled.div`
   min-height: 200px;
@@ -68,6 +93,16 @@ const Timestamp = styled.span`
   font-size: 0.85rem;
 `;
 
+const StreamingBadge = styled.span`
+  background: #e3f2fd;
+  color: #1976d2;
+  border: 1px solid #bbdefb;
+  border-radius: 12px;
+  padding: 2px 10px;
+  font-size: 0.8rem;
+  font-weight: 600;
+`;
+
 const ResponseBody = styled.div`
   padding: 20px;
 `;
@@ -122,6 +157,13 @@ const MetadataValue = styled.div`
   font-weight: 500;
 `;
 
+const RetryList = styled.ul`
+  margin: 12px 0 0 0;
+  padding-left: 20px;
+  font-size: 0.8rem;
+  color: #856404;
+`;
+
 const ActivitiesSection = styled.div`
   margin-top: 20px;
 `;
@@ -169,6 +211,21 @@ const SuggestedActionsTitle = styled.h4`
   gap: 8px;
 `;
 
+const RefreshCardButton = styled.button`
+  background: white;
+  color: #0078d4;
+  border: 1px solid #0078d4;
+  padding: 4px 10px;
+  border-radius: 6px;
+  font-size: 0.8rem;
+  cursor: pointer;
+  margin-bottom: 12px;
+
+  &:hover {
+    background: #f3f9fd;
+  }
+`;
+
 const SuggestedActionButton = styled.button`
   background: #007bff;
   color: white;
@@ -262,14 +319,25 @@ const RichTextContainer = styled.div`
     font-weight: 600;
   }
 
-  a {
+  a,
+  [data-href] {
     color: #007bff;
     text-decoration: none;
+    cursor: pointer;
 
     &:hover {
       text-decoration: underline;
     }
   }
+
+  .hidden-image {
+    display: inline-block;
+    padding: 2px 8px;
+    border: 1px dashed #adb5bd;
+    border-radius: 4px;
+    font-size: 0.8rem;
+    color: #6c757d;
+  }
 `;
 
 /**
@@ -277,7 +345,18 @@ const RichTextContainer = styled.div`
  */
 interface ResponseDisplayProps {
   response: AgentResponse | null; // Agent response to display
+  isLoading?: boolean; // Whether a turn is still in progress
   onSuggestedAction?: (action: string) => void; // Callback for suggested action clicks
+  onSendActivity?: (activity: OutgoingActivity) => void; // Callback for activities posted by card actions
+  onExecuteAction?: (
+    card: any,
+    action: CardExecuteAction,
+    trigger: "manual" | "automatic"
+  ) => void; // Callback for Action.Execute and card refreshes
+  userId?: string | null; // Signed-in user, matched against refresh.userIds
+  contentPolicy?: ContentPolicy; // Policy for links and remote images
+  onOpenUrl?: (url: string) => void; // Callback for links in messages and cards
+  hostConfig?: object; // Host config the cards are rendered with
 }
 
 /**
@@ -287,8 +366,60 @@ interface ResponseDisplayProps {
  */
 const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
   response,
+  isLoading = false,
   onSuggestedAction,
+  onSendActivity,
+  onExecuteAction,
+  userId = null,
+  contentPolicy,
+  onOpenUrl,
+  hostConfig,
 }) => {
+  const [elapsedSeconds, setElapsedSeconds] = useState<number>(0);
+  // Whether the user loaded the remote images of the message text
+  const [imagesAllowed, setImagesAllowed] = useState<boolean>(false);
+  // Refresh blocks already run automatically, so a returned card with the same
+  // refresh block does not refresh itself again
+  const autoRefreshedRef = useRef<Set<string>>(new Set());
+  const onExecuteActionRef = useRef(onExecuteAction);
+  onExecuteActionRef.current = onExecuteAction;
+
+  // Tick an elapsed-time counter while a turn is in progress
+  useEffect(() => {
+    if (!isLoading) return;
+
+    const startedAt = Date.now();
+    setElapsedSeconds(0);
+    const timer = setInterval(() => {
+      setElapsedSeconds(Math.floor((Date.now() - startedAt) / 1000));
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [isLoading]);
+
+  // Images loaded for one response stay hidden in the next
+  useEffect(() => {
+    if (isLoading) setImagesAllowed(false);
+  }, [isLoading]);
+
+  // Refresh cards listing the signed-in user once the turn has completed
+  useEffect(() => {
+    if (isLoading || !onExecuteActionRef.current) return;
+
+    (response?.metadata?.adaptiveCards || []).forEach((card: any) => {
+      const refreshAction = getRefreshAction(card.content);
+      const refreshKey = JSON.stringify(card.content?.refresh);
+      if (
+        refreshAction &&
+        isAutoRefreshUser(card.content, userId) &&
+        !autoRefreshedRef.current.has(refreshKey)
+      ) {
+        autoRefreshedRef.current.add(refreshKey);
+        onExecuteActionRef.current!(card.content, refreshAction, "automatic");
+      }
+    });
+  }, [response, isLoading, userId]);
+
   /**
    * Formats timestamp for display in local format
    * @param timestamp - ISO timestamp string
@@ -316,12 +447,68 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
     }
   };
 
+  /**
+   * Sends clicks on links in the message through the link policy instead of navigating
+   * @param event - Click event from the message
+   */
+  const handleLinkClick = (event: React.SyntheticEvent<HTMLDivElement>) => {
+    const href = getLinkTarget(event.target as Element);
+    if (href === null || !onOpenUrl) return;
+
+    event.preventDefault();
+    // Links whose unsafe URL was removed by the sanitizer lead nowhere
+    if (href) onOpenUrl(href);
+  };
+
+  /**
+   * Opens links that need confirmation with Enter, which the browser only does for
+   * links with an href
+   * @param event - Key event from the message
+   */
+  const handleLinkKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (
+      event.key === "Enter" &&
+      (event.target as Element).hasAttribute("data-href")
+    ) {
+      handleLinkClick(event);
+    }
+  };
+
+  /**
+   * Checks whether a link may only open after the user confirms it
+   * @param href - Link target
+   * @returns boolean - True for links outside the allowlist
+   */
+  const needsConfirmation = (href: string) =>
+    !!contentPolicy && !!onOpenUrl && !isAllowedUrl(href, contentPolicy);
+
   const renderMessageContent = (message: string) => {
+    const imagePolicy = imagesAllowed ? undefined : contentPolicy;
     const hasHtml = /<[^>]*>/g.test(message);
 
     if (hasHtml) {
+      const sanitized = sanitizeHtml(message, {
+        isBlockedImage: imagePolicy
+          ? (src) => isBlockedImage(src, imagePolicy)
+          : undefined,
+        needsConfirmation,
+      });
       return (
-        <RichTextContainer dangerouslySetInnerHTML={{ __html: message }} />
+        <>
+          <RemovedContentNotice removed={sanitized.removed} />
+          {contentPolicy && (
+            <RemoteImageNotice
+              hiddenImages={sanitized.hiddenImages}
+              mode={contentPolicy.remoteImages}
+              onLoadImages={() => setImagesAllowed(true)}
+            />
+          )}
+          <RichTextContainer
+            onClick={handleLinkClick}
+            onKeyDown={handleLinkKeyDown}
+            dangerouslySetInnerHTML={{ __html: sanitized.html }}
+          />
+        </>
       );
     }
 
@@ -329,9 +516,53 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
 
     if (hasMarkdown) {
       return (
-        <RichTextContainer>
-          <ReactMarkdown remarkPlugins={[remarkGfm]}>{message}</ReactMarkdown>
-        </RichTextContainer>
+        <>
+          <RemovedContentNotice removed={findUnsafeMarkdownUrls(message)} />
+          {contentPolicy && (
+            <RemoteImageNotice
+              hiddenImages={
+                imagePolicy ? countMarkdownImages(message, imagePolicy) : 0
+              }
+              mode={contentPolicy.remoteImages}
+              onLoadImages={() => setImagesAllowed(true)}
+            />
+          )}
+          <RichTextContainer
+            onClick={handleLinkClick}
+            onKeyDown={handleLinkKeyDown}
+          >
+            <ReactMarkdown
+              remarkPlugins={[remarkGfm]}
+              allowedElements={markdownAllowedElements}
+              unwrapDisallowed
+              urlTransform={sanitizeMarkdownUrl}
+              components={{
+                a: ({ href, children }) =>
+                  href && needsConfirmation(href) ? (
+                    <span data-href={href} role="link" tabIndex={0}>
+                      {children}
+                    </span>
+                  ) : (
+                    <a href={href} target="_blank" rel="noopener noreferrer">
+                      {children}
+                    </a>
+                  ),
+                img: ({ src, alt }) =>
+                  imagePolicy &&
+                  typeof src === "string" &&
+                  isBlockedImage(src, imagePolicy) ? (
+                    <span className="hidden-image">
+                      🖼️ Image hidden{alt ? `: ${alt}` : ""}
+                    </span>
+                  ) : (
+                    <img src={src} alt={alt} />
+                  ),
+              }}
+            >
+              {message}
+            </ReactMarkdown>
+          </RichTextContainer>
+        </>
       );
     }
 
@@ -359,21 +590,47 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
 
     return (
       <div>
-        {response.metadata.adaptiveCards.map((card, index) => (
-          <AdaptiveCardRenderer
-            key={index}
-            cardData={card}
-            index={index}
-            onAction={(action) => {
-              if (action.type === "Action.Submit" && action.data) {
-                const actionText = action.title || JSON.stringify(action.data);
-                if (onSuggestedAction) {
-                  onSuggestedAction(actionText);
-                }
-              }
-            }}
-          />
-        ))}
+        {response.metadata.adaptiveCards.map((card, index) => {
+          const refreshAction = getRefreshAction(card.content);
+          return (
+            <div key={index}>
+              <AdaptiveCardRenderer
+                cardData={card}
+                index={index}
+                contentPolicy={contentPolicy}
+                onOpenUrl={onOpenUrl}
+                hostConfig={hostConfig}
+                onAction={(action) => {
+                  // The renderer has merged the card's input values into the data
+                  const actionType = action.getJsonTypeName();
+                  if (actionType === "Action.Submit" && onSendActivity) {
+                    onSendActivity(createCardSubmitActivity(action.data));
+                  }
+                  if (actionType === "Action.Execute" && onExecuteAction) {
+                    onExecuteAction(
+                      card.content,
+                      { id: action.id, verb: action.verb, data: action.data },
+                      "manual"
+                    );
+                  }
+                }}
+              />
+              {refreshAction &&
+                onExecuteAction &&
+                !isAutoRefreshUser(card.content, userId) && (
+                  <RefreshCardButton
+                    type="button"
+                    disabled={isLoading}
+                    onClick={() =>
+                      onExecuteAction(card.content, refreshAction, "manual")
+                    }
+                  >
+                    🔄 Refresh card
+                  </RefreshCardButton>
+                )}
+            </div>
+          );
+        })}
       </div>
     );
   };
@@ -405,6 +662,22 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
     );
   };
 
+  if (!response && isLoading) {
+    return (
+      <Container>
+        <EmptyState>
+          <EmptyIcon>⏳</EmptyIcon>
+          <h3 style={{ margin: "0 0 8px 0", color: "#6c757d" }}>
+            Waiting for Agent
+          </h3>
+          <p style={{ margin: 0, fontSize: "0.9rem" }}>
+            No activities received yet · {elapsedSeconds}s elapsed
+          </p>
+        </EmptyState>
+      </Container>
+    );
+  }
+
   if (!response) {
     return (
       <Container>
@@ -426,7 +699,17 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
       <ResponseContainer>
         <ResponseHeader>
           <ResponseTitle>Agent Response</ResponseTitle>
-          <Timestamp>{formatTimestamp(response.timestamp)}</Timestamp>
+          {response.metadata?.isStreaming ? (
+            <StreamingBadge>
+              ⏳ Receiving… {response.metadata.activitiesCount || 0}{" "}
+              {response.metadata.activitiesCount === 1
+                ? "activity"
+                : "activities"}{" "}
+              · {elapsedSeconds}s
+            </StreamingBadge>
+          ) : (
+            <Timestamp>{formatTimestamp(response.timestamp)}</Timestamp>
+          )}
         </ResponseHeader>
 
         <ResponseBody>
@@ -502,6 +785,28 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
                     <MetadataValue>{response.metadata.model}</MetadataValue>
                   </MetadataItem>
                 )}
+                {response.metadata.locale && (
+                  <MetadataItem>
+                    <MetadataLabel>LOCALE</MetadataLabel>
+                    <MetadataValue>🌐 {response.metadata.locale}</MetadataValue>
+                  </MetadataItem>
+                )}
+                {response.metadata.attempts !== undefined && (
+                  <MetadataItem>
+                    <MetadataLabel>ATTEMPTS</MetadataLabel>
+                    <MetadataValue>
+                      {response.metadata.attempts}
+                      {response.metadata.retryPolicy &&
+                        ` of ${response.metadata.retryPolicy.maxAttempts}`}
+                    </MetadataValue>
+                  </MetadataItem>
+                )}
+                {response.metadata.aborted && (
+                  <MetadataItem>
+                    <MetadataLabel>STATUS</MetadataLabel>
+                    <MetadataValue>⏹️ Stopped by user</MetadataValue>
+                  </MetadataItem>
+                )}
                 <MetadataItem>
                   <MetadataLabel>CONVERSATION ID</MetadataLabel>
                   <MetadataValue>{response.conversationId}</MetadataValue>
@@ -516,9 +821,25 @@ const ResponseDisplay: React.FC<ResponseDisplayProps> = ({
                     </MetadataItem>
                   )}
               </MetadataGrid>
+              {response.metadata.retries &&
+                response.metadata.retries.length > 0 && (
+                  <RetryList>
+                    {response.metadata.retries.map((retry) => (
+                      <li key={retry.attempt}>
+                        Attempt {retry.attempt} failed
+                        {retry.status ? ` (HTTP ${retry.status})` : ""}:{" "}
+                        {retry.error} — retried after {retry.delayMs}ms
+                        {retry.retryAfter ? " (Retry-After)" : ""}
+                      </li>
+                    ))}
+                  </RetryList>
+                )}
             </MetadataSection>
           )}
 
+          {/* Every activity of the turn, including typing and events */}
+          <ActivityTimeline response={response} />
+
           {/* Raw Response Data - Collapsible */}
           {response.metadata?.fullActivities && (
             <ActivitiesSection>
@@ -0,0 +1,193 @@
+/**
+ * Session List Component
+ *
+ * Lists the conversations saved in the browser with their turn counts and last
+ * update time. Sessions can be reopened as tabs or deleted one by one or all at
+ * once, and the retention limits for saved sessions can be adjusted.
+ */
+
+import React from "react";
+import styled from "styled-components";
+import { SessionRetention, StoredSession } from "../types/agent";
+
+const ListContainer = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 16px;
+`;
+
+const SessionRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  padding: 12px 16px;
+  border: 1px solid #dee2e6;
+  border-radius: 8px;
+  background: #f8f9fa;
+`;
+
+const SessionInfo = styled.div`
+  flex: 1;
+  min-width: 0;
+`;
+
+const SessionTitle = styled.div`
+  font-weight: 600;
+  color: #343a40;
+`;
+
+const SessionDetails = styled.div`
+  font-size: 0.8rem;
+  color: #6c757d;
+`;
+
+const RowButton = styled.button<{ danger?: boolean }>`
+  background: ${(props) => (props.danger ? "#dc3545" : "#667eea")};
+  color: white;
+  border: none;
+  padding: 6px 12px;
+  border-radius: 6px;
+  font-size: 0.85rem;
+  cursor: pointer;
+
+  &:disabled {
+    background: #adb5bd;
+    cursor: not-allowed;
+  }
+`;
+
+const RetentionRow = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 12px;
+  font-size: 0.85rem;
+  color: #495057;
+`;
+
+const RetentionInput = styled.input`
+  width: 70px;
+  padding: 4px 8px;
+  border: 1px solid #ced4da;
+  border-radius: 4px;
+`;
+
+const EmptyText = styled.div`
+  text-align: center;
+  color: #6c757d;
+  font-style: italic;
+  padding: 20px;
+`;
+
+/**
+ * Props interface for SessionList component
+ */
+interface SessionListProps {
+  sessions: StoredSession[]; // Saved sessions, most recent first
+  openSessionIds: string[]; // Sessions currently open as tabs
+  retention: SessionRetention; // Limits applied to saved sessions
+  onOpen: (session: StoredSession) => void; // Callback to open a session as a tab
+  onDelete: (id: string) => void; // Callback to delete one session
+  onClearAll: () => void; // Callback to delete all sessions
+  onRetentionChange: (retention: SessionRetention) => void; // Callback when limits change
+}
+
+/**
+ * SessionList component for browsing saved sessions
+ * @param props - Component props containing sessions and callbacks
+ * @returns JSX.Element - Saved session list
+ */
+const SessionList: React.FC<SessionListProps> = ({
+  sessions,
+  openSessionIds,
+  retention,
+  onOpen,
+  onDelete,
+  onClearAll,
+  onRetentionChange,
+}) => {
+  /**
+   * Updates one retention limit, ignoring invalid input
+   * @param field - Limit being changed
+   * @param value - New input value
+   */
+  const handleRetentionChange = (
+    field: keyof SessionRetention,
+    value: string
+  ) => {
+    const limit = Math.floor(Number(value));
+    if (!value || isNaN(limit) || limit < 1) return;
+    onRetentionChange({ ...retention, [field]: limit });
+  };
+
+  return (
+    <ListContainer>
+      <RetentionRow>
+        <label>
+          Keep at most{" "}
+          <RetentionInput
+            type="number"
+            min={1}
+            value={retention.maxSessions}
+            onChange={(e) =>
+              handleRetentionChange("maxSessions", e.target.value)
+            }
+          />{" "}
+          sessions
+        </label>
+        <label>
+          for up to{" "}
+          <RetentionInput
+            type="number"
+            min={1}
+            value={retention.maxAgeDays}
+            onChange={(e) =>
+              handleRetentionChange("maxAgeDays", e.target.value)
+            }
+          />{" "}
+          days
+        </label>
+        <RowButton
+          type="button"
+          danger
+          disabled={sessions.length === 0}
+          onClick={onClearAll}
+        >
+          🗑️ Clear all
+        </RowButton>
+      </RetentionRow>
+
+      {sessions.length === 0 ? (
+        <EmptyText>No saved sessions yet</EmptyText>
+      ) : (
+        sessions.map((session) => {
+          const isOpen = openSessionIds.indexOf(session.id) !== -1;
+          return (
+            <SessionRow key={session.id}>
+              <SessionInfo>
+                <SessionTitle>{session.title}</SessionTitle>
+                <SessionDetails>
+                  {session.history.length}{" "}
+                  {session.history.length === 1 ? "turn" : "turns"} · updated{" "}
+                  {new Date(session.updatedAt).toLocaleString()}
+                </SessionDetails>
+              </SessionInfo>
+              <RowButton type="button" onClick={() => onOpen(session)}>
+                {isOpen ? "Show" : "Open"}
+              </RowButton>
+              <RowButton
+                type="button"
+                danger
+                onClick={() => onDelete(session.id)}
+              >
+                Delete
+              </RowButton>
+            </SessionRow>
+          );
+        })
+      )}
+    </ListContainer>
+  );
+};
+
+export default SessionList;
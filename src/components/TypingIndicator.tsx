@@ -0,0 +1,98 @@
+/**
+ * Typing Indicator Component
+ *
+ * Shows "agent is typing…" while the latest activity of the turn in progress is a
+ * typing activity. Like Web Chat, the indicator goes away when the next activity
+ * arrives or when no further typing activity is received for a few seconds.
+ */
+
+import React, { useEffect, useState } from "react";
+import styled from "styled-components";
+
+// How long a typing activity keeps the indicator visible
+const typingTimeoutMs = 5000;
+
+const Indicator = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  font-size: 0.85rem;
+  font-style: italic;
+  color: #6c757d;
+`;
+
+const Dots = styled.span`
+  display: inline-flex;
+  gap: 3px;
+
+  span {
+    width: 6px;
+    height: 6px;
+    border-radius: 50%;
+    background: #667eea;
+    animation: typingPulse 1.2s infinite ease-in-out;
+  }
+
+  @keyframes typingPulse {
+    0%,
+    80%,
+    100% {
+      opacity: 0.3;
+    }
+    40% {
+      opacity: 1;
+    }
+  }
+
+  span:nth-child(2) {
+    animation-delay: 0.2s;
+  }
+
+  span:nth-child(3) {
+    animation-delay: 0.4s;
+  }
+`;
+
+/**
+ * Props interface for TypingIndicator component
+ */
+interface TypingIndicatorProps {
+  activities: any[]; // Activities received so far in the turn in progress
+}
+
+/**
+ * TypingIndicator component for the turn in progress
+ * @param props - Component props containing the received activities
+ * @returns JSX.Element | null - Indicator, or nothing when the agent is not typing
+ */
+const TypingIndicator: React.FC<TypingIndicatorProps> = ({ activities }) => {
+  const [isTyping, setIsTyping] = useState<boolean>(false);
+  const lastActivity = activities[activities.length - 1];
+
+  // Restart the timeout for every new activity
+  useEffect(() => {
+    if (lastActivity?.type !== "typing") {
+      setIsTyping(false);
+      return;
+    }
+
+    setIsTyping(true);
+    const timer = setTimeout(() => setIsTyping(false), typingTimeoutMs);
+    return () => clearTimeout(timer);
+  }, [lastActivity]);
+
+  if (!isTyping) return null;
+
+  return (
+    <Indicator role="status">
+      <Dots>
+        <span />
+        <span />
+        <span />
+      </Dots>
+      {lastActivity?.from?.name || "Agent"} is typing…
+    </Indicator>
+  );
+};
+
+export default TypingIndicator;
@@ -0,0 +1,25 @@
+/**
+ * Scripted Agent Scenarios
+ *
+ * Registry of the JSON scenarios available to the scripted agent transport.
+ * Add a scenario by dropping a JSON file in this folder and listing it below.
+ */
+
+import { ScriptedScenario } from "../types/agent";
+import demoScenario from "./demo.json";
+
+export const scriptedScenarios: ScriptedScenario[] = [
+  demoScenario as ScriptedScenario,
+];
+
+/**
+ * Finds a scripted scenario by its identifier
+ * @param scenarioId - Scenario identifier, defaults to the first scenario
+ * @returns ScriptedScenario - Matching scenario or the first registered one
+ */
+export function getScriptedScenario(scenarioId?: string): ScriptedScenario {
+  return (
+    scriptedScenarios.find((scenario) => scenario.id === scenarioId) ||
+    scriptedScenarios[0]
+  );
+}
@@ -0,0 +1,40 @@
+import { abortableDelay } from "./abortSignal";
+
+describe("abortableDelay", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("resolves after the delay and stops listening to the signal", async () => {
+    const controller = new AbortController();
+    const removeListener = jest.spyOn(controller.signal, "removeEventListener");
+
+    const delay = abortableDelay(1000, controller.signal);
+    jest.advanceTimersByTime(1000);
+    await expect(delay).resolves.toBeUndefined();
+    expect(removeListener).toHaveBeenCalledWith("abort", expect.any(Function));
+  });
+
+  it("rejects and clears its timer when the signal fires", async () => {
+    const controller = new AbortController();
+    const delay = abortableDelay(1000, controller.signal);
+    expect(jest.getTimerCount()).toBe(1);
+
+    controller.abort();
+    await expect(delay).rejects.toMatchObject({ name: "AbortError" });
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it("throws at once for a signal that has already fired", () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(() => abortableDelay(1000, controller.signal)).toThrow(
+      "The request was stopped"
+    );
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Abort Signal Helpers
+ *
+ * Small utilities for cancelling agent turns with an AbortSignal: creating and
+ * recognizing abort errors, and waiting in a way that stops as soon as the
+ * signal fires.
+ */
+
+/**
+ * Creates the error thrown when a turn is cancelled
+ * @returns Error - Error named "AbortError", matching the one thrown by fetch
+ */
+export function createAbortError(): Error {
+  const error = new Error("The request was stopped");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * Checks whether an error was caused by cancelling a turn
+ * @param error - Error to inspect
+ * @returns boolean - True for abort errors from fetch or from these helpers
+ */
+export function isAbortError(error: any): boolean {
+  return error?.name === "AbortError";
+}
+
+/**
+ * Throws an abort error if the signal has already fired
+ * @param signal - Optional abort signal
+ * @throws Error named "AbortError" if the signal is aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Waits for the given number of milliseconds unless the signal fires first
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal
+ * @returns Promise<void>
+ * @throws Error named "AbortError" if the signal fires during the wait
+ */
+export function abortableDelay(
+  ms: number,
+  signal?: AbortSignal
+): Promise<void> {
+  throwIfAborted(signal);
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort);
+  });
+}
@@ -0,0 +1,139 @@
+/**
+ * Activity Summary
+ *
+ * Turns the activities an agent sent during one turn into the summary shown in
+ * the UI: the joined message text, adaptive cards and suggested actions, and the
+ * timeline of every activity in arrival order. Shared by live turns and by
+ * conversations rebuilt from imported transcripts.
+ */
+
+import { ActivityTimelineEntry } from "../types/agent";
+
+/**
+ * Extracts text, adaptive cards, and suggested actions from agent activities
+ * @param replies - Activities received from the agent
+ * @param conversationId - Conversation the activities belong to
+ * @returns any - Summary of the agent response content
+ */
+export function summarizeActivities(
+  replies: any[],
+  conversationId: string
+): any {
+  let responseText = "";
+  let textMessages: string[] = [];
+  let suggestedActions: any[] = [];
+  let adaptiveCards: any[] = [];
+  let allActivities: any[] = [];
+
+  replies.forEach((activity: any) => {
+    allActivities.push(activity);
+
+    if (activity.type === "message") {
+      if (activity.text && activity.text.trim()) {
+        textMessages.push(activity.text.trim());
+      }
+
+      if (activity.attachments && activity.attachments.length > 0) {
+        activity.attachments.forEach((attachment: any) => {
+          if (
+            attachment.contentType === "application/vnd.microsoft.card.adaptive"
+          ) {
+            adaptiveCards.push({
+              content: attachment.content,
+              contentType: attachment.contentType,
+              name: attachment.name || "Adaptive Card",
+            });
+          }
+        });
+      }
+
+      if (activity.suggestedActions?.actions) {
+        suggestedActions.push(...activity.suggestedActions.actions);
+      }
+    }
+
+    // Universal Action invoke responses carry a card or a message in their body
+    if (activity.type === "invokeResponse") {
+      const body = activity.value?.body;
+      if (body?.type === "application/vnd.microsoft.card.adaptive") {
+        adaptiveCards.push({
+          content: body.value,
+          contentType: body.type,
+          name: "Adaptive Card",
+        });
+      } else if (
+        body?.type === "application/vnd.microsoft.activity.message" &&
+        body.value
+      ) {
+        textMessages.push(String(body.value));
+      }
+    }
+  });
+
+  // Join all text messages with line breaks
+  responseText = textMessages.join("\n\n");
+
+  return {
+    text: responseText || "",
+    message: responseText || "",
+    id: `response-${Date.now()}`,
+    conversationId: conversationId,
+    activities: allActivities,
+    suggestedActions: suggestedActions,
+    adaptiveCards: adaptiveCards,
+    agentResponseReceived: true,
+    hasAdaptiveCards: adaptiveCards.length > 0,
+    hasText: !!responseText,
+    hasSuggestedActions: suggestedActions.length > 0,
+  };
+}
+
+/**
+ * Counts the replies of a turn: its messages and invoke responses
+ *
+ * Typing, trace and event activities are left out, so the count stays comparable
+ * with regression baselines recorded before those activities were kept.
+ * @param activities - Activities received from the agent
+ * @returns number - Number of message and invoke response activities
+ */
+export function countReplies(activities: any[]): number {
+  return activities.filter(
+    (activity) =>
+      activity.type === "message" || activity.type === "invokeResponse"
+  ).length;
+}
+
+/**
+ * Lists every activity of a turn with its arrival time and offset from the turn start
+ * @param activities - Activities received from the agent, in arrival order
+ * @param startTime - When the turn started; the first activity is used if missing
+ * @param getArrivalTime - Optional lookup of when an activity arrived, in epoch milliseconds
+ * @returns ActivityTimelineEntry[] - One entry per activity, including typing and events
+ */
+export function createActivityTimeline(
+  activities: any[],
+  startTime?: string,
+  getArrivalTime?: (activity: any) => number | undefined
+): ActivityTimelineEntry[] {
+  const times = activities.map((activity) => {
+    const arrivalTime = getArrivalTime ? getArrivalTime(activity) : undefined;
+    return arrivalTime !== undefined
+      ? arrivalTime
+      : new Date(activity.timestamp).getTime();
+  });
+  const parsedStart = startTime ? new Date(startTime).getTime() : NaN;
+  const start = isNaN(parsedStart)
+    ? times.find((time) => !isNaN(time))
+    : parsedStart;
+
+  return activities.map((activity, index) => {
+    // Activities without a usable timestamp are placed at the turn start
+    const time = isNaN(times[index]) ? start : times[index];
+    return {
+      type: activity.type || "unknown",
+      name: activity.name || undefined,
+      timestamp: time !== undefined ? new Date(time).toISOString() : "",
+      offsetMs: time !== undefined && start !== undefined ? time - start : 0,
+    };
+  });
+}
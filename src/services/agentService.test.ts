@@ -0,0 +1,58 @@
+import { AgentConfig } from "../types/agent";
+import { createAgentClient, createAgentTransport } from "./agentService";
+import { ScriptedAgentTransport } from "./scriptedAgentTransport";
+
+const config: AgentConfig = {
+  clientId: "",
+  tenantId: "",
+  botIdentifier: "demo-bot",
+  environmentId: "demo-environment",
+  transportType: "scripted",
+  scenarioId: "demo",
+};
+
+describe("createAgentTransport", () => {
+  it("uses the scripted transport when the configuration selects it", () => {
+    expect(createAgentTransport(config)).toBeInstanceOf(ScriptedAgentTransport);
+  });
+});
+
+describe("AgentClient with the scripted demo scenario", () => {
+  it("returns the greeting with its card and suggested actions", async () => {
+    const client = createAgentClient(config);
+    const response = await client.startConversation();
+    client.dispose();
+
+    expect(response.success).toBe(true);
+    expect(response.message).toContain("Welcome!");
+    expect(response.metadata).toMatchObject({
+      botId: "demo-bot",
+      environmentId: "demo-environment",
+      authenticated: false,
+      endpoint: "Scripted Agent",
+      activitiesCount: 2,
+      hasAdaptiveCards: true,
+      hasSuggestedActions: true,
+      isStreaming: false,
+      attempts: 1,
+    });
+    expect(response.metadata!.adaptiveCards).toHaveLength(1);
+  });
+
+  it("continues the conversation with the reply of the matching turn", async () => {
+    const client = createAgentClient(config);
+    const greeting = await client.startConversation();
+    const reply = await client.sendMessage("hello there");
+    client.dispose();
+
+    expect(reply.message).toMatch(/^Hello! I'm the scripted demo agent/);
+    expect(reply.conversationId).toBe(greeting.conversationId);
+    expect(reply.metadata).toMatchObject({
+      conversationId: greeting.conversationId,
+      activitiesCount: 1,
+      hasText: true,
+      hasAdaptiveCards: false,
+    });
+    expect(reply.metadata!.suggestedActions).toHaveLength(2);
+  });
+});
@@ -5,11 +5,41 @@
  * It handles MSAL authentication, token management, and agent interactions through the official SDK.
  */
 
-import { AgentConfig, AgentResponse } from "../types/agent";
 import {
-  CopilotStudioClient,
-  ConnectionSettings,
-} from "@microsoft/agents-copilotstudio-client";
+  AccountState,
+  AgentConfig,
+  AgentResponse,
+  AgentStreamHandlers,
+  ConnectionState,
+  OutgoingActivity,
+  RetryAttempt,
+  RetryPolicy,
+} from "../types/agent";
+import { Activity } from "@microsoft/agents-activity";
+import { abortableDelay, isAbortError, throwIfAborted } from "./abortSignal";
+import {
+  countReplies,
+  createActivityTimeline,
+  summarizeActivities,
+} from "./activitySummary";
+import { AgentTransport } from "./agentTransport";
+import {
+  getAuthority,
+  getScopes,
+  isValidAuthority,
+  isValidTenant,
+} from "./cloudSettings";
+import { CopilotStudioTransport } from "./copilotStudioTransport";
+import { validateDirectConnectUrl } from "./directConnectUrl";
+import { createMessageActivity } from "./outgoingActivity";
+import {
+  getErrorStatus,
+  getRetryDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+} from "./retryPolicy";
+import { ScriptedAgentTransport } from "./scriptedAgentTransport";
+import { getScriptedScenario } from "../scenarios";
 import {
   PublicClientApplication,
   Configuration,
@@ -20,7 +50,7 @@ import {
 /**
  * Authentication error interface for structured error handling
  */
-interface AuthError {
+export interface AuthError {
   name: string;
   message: string;
   type: string;
@@ -38,8 +68,16 @@ export interface AuthStatus {
     expiresAt: string | null;
     isValid: boolean;
   };
+  lastAuthMethod?: AuthMethod;
+  lastAuthenticatedAt?: string;
+  account?: string;
 }
 
+/**
+ * Method used for the most recent successful token acquisition
+ */
+export type AuthMethod = "silent" | "interactive" | "redirect";
+
 /**
  * Power Platform Authentication Service
  *
@@ -49,10 +87,18 @@ export interface AuthStatus {
 class PCFAuth {
   private msalInstance: PublicClientApplication | null = null;
   private config: AgentConfig | null = null;
-  private scopes = ["https://api.powerplatform.com/.default"];
+  private scopes: string[] = [];
   private cachedToken: string | null = null;
   private tokenExpiryTime: Date | null = null;
-  private authStatusCallback?: (status: AuthStatus) => void;
+  private authStatusListeners: Array<(status: AuthStatus) => void> = [];
+  private lastAuthMethod?: AuthMethod;
+  private lastAuthenticatedAt?: string;
+  private lastAccountUsername?: string;
+  private lastAuthError?: AuthError;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private static readonly defaultRefreshSkewSeconds = 300;
+  private beforeRedirectCallback?: () => Promise<void>;
+  private accountChangeListeners: Array<() => void> = [];
 
   /**
    * Initializes MSAL instance with agent configuration
@@ -69,11 +115,12 @@ class PCFAuth {
     }
 
     this.config = agentConfig;
+    this.scopes = getScopes(agentConfig);
 
     const msalConfig: Configuration = {
       auth: {
         clientId: agentConfig.clientId,
-        authority: `https://login.microsoftonline.com/${agentConfig.tenantId}`,
+        authority: getAuthority(agentConfig),
         redirectUri:
           typeof window !== "undefined" ? window.location.origin : "",
       },
@@ -92,7 +139,7 @@ class PCFAuth {
    * @throws Error if authentication fails or token cannot be acquired
    */
   async acquireToken(): Promise<string> {
-    if (this.isCachedTokenValid()) {
+    if (this.isCachedTokenFresh()) {
       return this.cachedToken!;
     }
 
@@ -111,6 +158,207 @@ class PCFAuth {
     }
   }
 
+  /**
+   * Forces a silent token refresh for the active account, without any user interaction
+   * @returns Promise<string> - Newly issued access token
+   * @throws Error if no account is signed in or silent acquisition fails
+   */
+  async refreshTokenSilently(): Promise<string> {
+    this.validateInitialization();
+
+    try {
+      await this.initializeMsalInstance();
+      const account = this.getActiveAccount();
+      if (!account) {
+        throw new Error("No signed-in account to refresh the token for");
+      }
+
+      const result = await this.msalInstance!.acquireTokenSilent({
+        scopes: this.scopes,
+        account,
+        forceRefresh: true,
+      });
+      const token = this.cacheAndReturnToken(result, "silent");
+
+      this.notifyAuthSuccess();
+      return token;
+    } catch (refreshError) {
+      const error = new Error(
+        `Silent token refresh failed: ${this.getErrorMessage(refreshError)}`
+      );
+      this.notifyAuthError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the cached access token if it has not expired yet
+   * @returns string | null - Cached token, or null if there is no valid token
+   */
+  getCachedToken(): string | null {
+    return this.isCachedTokenValid() ? this.cachedToken : null;
+  }
+
+  /**
+   * Stops the scheduled proactive token refresh
+   */
+  dispose(): void {
+    this.clearRefreshTimer();
+  }
+
+  /**
+   * Registers callback invoked right before the page navigates away for redirect sign-in
+   * @param callback - Callback used to persist application state across the redirect;
+   * the redirect does not start if it rejects
+   */
+  setBeforeRedirectCallback(callback?: () => Promise<void>): void {
+    this.beforeRedirectCallback = callback;
+  }
+
+  /**
+   * Completes a redirect sign-in after the page has returned from the identity provider
+   * @returns Promise<boolean> - True if a redirect response was processed and a token cached
+   * @throws Error if the redirect response contains an authentication error
+   */
+  async handleRedirectResult(): Promise<boolean> {
+    this.validateInitialization();
+
+    try {
+      await this.initializeMsalInstance();
+      const result = await this.msalInstance!.handleRedirectPromise();
+
+      if (!result) {
+        return false;
+      }
+
+      this.cacheAndReturnToken(result, "redirect");
+      this.notifyAuthSuccess();
+      return true;
+    } catch (redirectError) {
+      const error = new Error(
+        `Redirect sign-in failed: ${this.getErrorMessage(redirectError)}`
+      );
+      this.notifyAuthError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists signed-in accounts and the account used for token acquisition
+   * @returns Promise<AccountState> - Cached accounts and active account ID
+   */
+  async getAccountState(): Promise<AccountState> {
+    this.validateInitialization();
+    await this.initializeMsalInstance();
+
+    const activeAccount = this.getActiveAccount();
+    return {
+      accounts: this.msalInstance!.getAllAccounts().map((account) => ({
+        homeAccountId: account.homeAccountId,
+        username: account.username,
+        name: account.name,
+      })),
+      activeAccountId: activeAccount?.homeAccountId || null,
+    };
+  }
+
+  /**
+   * Makes another cached account the one used for token acquisition
+   * @param homeAccountId - Home account ID of the account to switch to
+   * @throws Error if the account is not in the MSAL cache
+   */
+  async switchAccount(homeAccountId: string): Promise<void> {
+    this.validateInitialization();
+    await this.initializeMsalInstance();
+
+    const account = this.msalInstance!.getAccountByHomeId(homeAccountId);
+    if (!account) {
+      throw new Error("Account is no longer signed in");
+    }
+
+    this.msalInstance!.setActiveAccount(account);
+    this.clearCachedToken();
+    this.notifyAccountsChanged();
+    this.notifyAuthStatus();
+  }
+
+  /**
+   * Signs in an additional account, always showing the account picker
+   * @returns Promise<void>
+   * @throws Error if interactive sign-in fails
+   */
+  async addAccount(): Promise<void> {
+    this.validateInitialization();
+    await this.initializeMsalInstance();
+
+    try {
+      if (this.isRedirectMode()) {
+        return await this.startRedirectLogin("select_account");
+      }
+      const result = await this.msalInstance!.loginPopup({
+        scopes: this.scopes,
+        prompt: "select_account",
+      });
+      this.cacheAndReturnToken(result, "interactive");
+      this.notifyAuthSuccess();
+    } catch (loginError) {
+      const error = new Error(
+        `Adding account failed: ${this.getErrorMessage(loginError)}`
+      );
+      this.notifyAuthError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Signs the active account out of this application
+   *
+   * Removes the account from the local MSAL cache and clears the cached token.
+   * The Entra ID browser session is kept, so other apps stay signed in.
+   */
+  async signOut(): Promise<void> {
+    this.validateInitialization();
+    await this.initializeMsalInstance();
+
+    const account = this.getActiveAccount();
+    this.clearCachedToken();
+    if (account) {
+      await this.msalInstance!.clearCache({ account });
+    }
+    this.msalInstance!.setActiveAccount(null);
+    this.lastAccountUsername = undefined;
+    this.notifyAccountsChanged();
+    this.notifyAuthStatus();
+  }
+
+  /**
+   * Registers listener notified whenever the authentication status changes
+   * @param listener - Listener to notify with the latest status
+   * @returns Function that removes the listener
+   */
+  onAuthStatusChanged(listener: (status: AuthStatus) => void): () => void {
+    this.authStatusListeners.push(listener);
+    return () => {
+      this.authStatusListeners = this.authStatusListeners.filter(
+        (existing) => existing !== listener
+      );
+    };
+  }
+
+  /**
+   * Registers listener notified whenever the signed-in accounts change
+   * @param listener - Listener to notify
+   * @returns Function that removes the listener
+   */
+  onAccountsChanged(listener: () => void): () => void {
+    this.accountChangeListeners.push(listener);
+    return () => {
+      this.accountChangeListeners = this.accountChangeListeners.filter(
+        (existing) => existing !== listener
+      );
+    };
+  }
+
   /**
    * Checks if cached token is still valid
    * @returns boolean - True if cached token exists and is not expired
@@ -123,6 +371,58 @@ class PCFAuth {
     );
   }
 
+  /**
+   * Checks if cached token is valid beyond the refresh skew window
+   * @returns boolean - True if cached token can be used without refreshing
+   */
+  private isCachedTokenFresh(): boolean {
+    return Boolean(
+      this.cachedToken &&
+        this.tokenExpiryTime &&
+        Date.now() + this.getRefreshSkewMs() < this.tokenExpiryTime.getTime()
+    );
+  }
+
+  /**
+   * Gets how long before expiry a token is refreshed
+   * @returns number - Refresh skew window in milliseconds
+   */
+  private getRefreshSkewMs(): number {
+    const skewSeconds =
+      this.config?.tokenRefreshSkewSeconds ?? PCFAuth.defaultRefreshSkewSeconds;
+    return Math.max(0, skewSeconds) * 1000;
+  }
+
+  /**
+   * Schedules a silent refresh of the cached token when it enters the skew window
+   */
+  private scheduleProactiveRefresh(): void {
+    this.clearRefreshTimer();
+    if (!this.tokenExpiryTime) return;
+
+    const delay =
+      this.tokenExpiryTime.getTime() - this.getRefreshSkewMs() - Date.now();
+    // Tokens already inside the skew window are refreshed on the next request
+    if (delay <= 0) return;
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshTokenSilently().catch(() => {
+        // Failure is reported through the auth status; the next request signs in again
+      });
+    }, delay);
+  }
+
+  /**
+   * Cancels the pending proactive token refresh, if any
+   */
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
   /**
    * Validates that MSAL instance and configuration are properly initialized
    * @throws Error if MSAL instance or configuration is not initialized
@@ -171,7 +471,9 @@ class PCFAuth {
     try {
       const result = await this.msalInstance!.acquireTokenSilent({
         scopes: this.scopes,
-        account: accounts[0],
+        account: this.getActiveAccount() || accounts[0],
+        // A cached token inside the skew window would otherwise be returned as-is
+        forceRefresh: Boolean(this.cachedToken),
       });
 
       return this.cacheAndReturnToken(result, "silent");
@@ -182,12 +484,15 @@ class PCFAuth {
   }
 
   /**
-   * Performs interactive login via popup window
+   * Performs interactive login via popup window or full-page redirect
    * @param reason - Reason for performing interactive login (for logging)
    * @returns Promise<void>
    */
   private async performInteractiveLogin(reason: string): Promise<void> {
     try {
+      if (this.isRedirectMode()) {
+        return await this.startRedirectLogin();
+      }
       await this.msalInstance!.loginPopup({ scopes: this.scopes });
     } catch (loginError) {
       const error = new Error(
@@ -204,6 +509,9 @@ class PCFAuth {
    */
   private async performInteractiveLoginForToken(): Promise<AuthenticationResult> {
     try {
+      if (this.isRedirectMode()) {
+        return await this.startRedirectLogin();
+      }
       const result = await this.msalInstance!.loginPopup({
         scopes: this.scopes,
       });
@@ -219,21 +527,92 @@ class PCFAuth {
     }
   }
 
+  /**
+   * Checks whether interactive sign-in should use a full-page redirect instead of a popup
+   * @returns boolean - True if redirect mode is configured
+   */
+  private isRedirectMode(): boolean {
+    return this.config?.authMode === "redirect";
+  }
+
+  /**
+   * Starts redirect sign-in after letting the application persist its state
+   * @param prompt - Optional prompt behavior, e.g. "select_account"
+   * @returns Promise<never> - Never settles, the page navigates to the identity provider
+   * @throws Error if the application state could not be saved; the page stays
+   */
+  private async startRedirectLogin(prompt?: string): Promise<never> {
+    if (this.beforeRedirectCallback) {
+      await this.beforeRedirectCallback();
+    }
+
+    await this.msalInstance!.loginRedirect({ scopes: this.scopes, prompt });
+
+    // Keep the caller pending until the browser leaves the page
+    return new Promise<never>(() => {});
+  }
+
   /**
    * Caches authentication result and returns access token
    * @param result - Authentication result from MSAL
-   * @param method - Authentication method used (for logging)
+   * @param method - Authentication method used, reported in the auth status
    * @returns string - Access token
    */
   private cacheAndReturnToken(
     result: AuthenticationResult,
-    method: string
+    method: AuthMethod
   ): string {
     this.cachedToken = result.accessToken;
     this.tokenExpiryTime = result.expiresOn || null;
+    this.lastAuthMethod = method;
+    this.lastAuthenticatedAt = new Date().toISOString();
+    // An earlier failure no longer describes the current state
+    this.lastAuthError = undefined;
+    this.scheduleProactiveRefresh();
+    if (result.account) {
+      this.msalInstance!.setActiveAccount(result.account);
+      this.lastAccountUsername = result.account.username;
+    }
     return result.accessToken;
   }
 
+  /**
+   * Clears cached access token so the next request acquires a fresh one
+   */
+  private clearCachedToken(): void {
+    this.cachedToken = null;
+    this.tokenExpiryTime = null;
+    this.clearRefreshTimer();
+  }
+
+  /**
+   * Gets the directory object ID of the account used for requests
+   * @returns string | null - Object ID, or null when no account is signed in
+   */
+  getUserId(): string | null {
+    if (!this.msalInstance) return null;
+    return this.getActiveAccount()?.localAccountId || null;
+  }
+
+  /**
+   * Gets the account used for token acquisition
+   * @returns AccountInfo | null - Active account, falling back to the first cached account
+   */
+  private getActiveAccount(): AccountInfo | null {
+    return (
+      this.msalInstance!.getActiveAccount() ||
+      this.msalInstance!.getAllAccounts()[0] ||
+      null
+    );
+  }
+
+  /**
+   * Notifies listeners that the signed-in accounts changed
+   */
+  private notifyAccountsChanged(): void {
+    this.accountChangeListeners.forEach((listener) => listener());
+  }
+
   /**
    * Extracts error message from unknown error type
    * @param error - Error object of unknown type
@@ -258,28 +637,45 @@ class PCFAuth {
   }
 
   /**
-   * Notifies callback about successful authentication
+   * Notifies listeners about successful authentication
    */
   private notifyAuthSuccess(): void {
-    if (this.authStatusCallback) {
-      this.authStatusCallback({
-        isAuthenticated: true,
-        tokenInfo: this.getTokenInfo(),
-      });
-    }
+    this.notifyAccountsChanged();
+    this.notifyAuthStatus();
   }
 
   /**
-   * Notifies callback about authentication error
+   * Records authentication error and notifies listeners
    * @param error - Error that occurred during authentication
    */
   private notifyAuthError(error: Error): void {
-    if (this.authStatusCallback) {
-      this.authStatusCallback({
-        isAuthenticated: false,
-        error: this.createAuthError(error),
-      });
-    }
+    this.lastAuthError = this.createAuthError(error);
+    this.notifyAuthStatus();
+  }
+
+  /**
+   * Notifies listeners with the current authentication status
+   */
+  private notifyAuthStatus(): void {
+    const status = this.getAuthStatus();
+    this.authStatusListeners.forEach((listener) => listener(status));
+  }
+
+  /**
+   * Gets snapshot of the current authentication status
+   * @returns AuthStatus - Token state, last auth method, and last error
+   */
+  getAuthStatus(): AuthStatus {
+    const tokenInfo = this.getTokenInfo();
+
+    return {
+      isAuthenticated: tokenInfo.isValid,
+      error: this.lastAuthError,
+      tokenInfo,
+      lastAuthMethod: this.lastAuthMethod,
+      lastAuthenticatedAt: this.lastAuthenticatedAt,
+      account: this.lastAccountUsername,
+    };
   }
 
   /**
@@ -299,27 +695,48 @@ class PCFAuth {
   }
 }
 
+/**
+ * Key of the conversation used when callers do not manage several conversations
+ */
+const defaultConversationKey = "default";
+
 /**
  * Microsoft 365 Agent Client
  *
  * Main client for communicating with Microsoft 365 Copilot Studio agents.
  * Handles authentication, connection management, and message sending/receiving.
+ * Activities travel through a pluggable AgentTransport (live or scripted).
  * Provides structured responses with support for adaptive cards and suggested actions.
  */
 export class AgentClient {
   private config: AgentConfig;
   private authService: PCFAuth;
-  private copilotClient: CopilotStudioClient | null = null;
-  private currentConversationId: string | null = null;
+  private transport: AgentTransport;
+  private conversationIds = new Map<string, string>();
+  // Conversations started for their greeting that have not had a message yet
+  private startedConversationKeys = new Set<string>();
+  private connectionState: ConnectionState = "idle";
+  private connectionStateListeners: Array<(state: ConnectionState) => void> =
+    [];
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribeAuthStatus: () => void;
 
   /**
    * Creates new AgentClient instance
    * @param config - Agent configuration with authentication and connection details
+   * @param transport - Transport used to reach the agent
    */
-  constructor(config: AgentConfig) {
+  constructor(config: AgentConfig, transport: AgentTransport) {
     this.config = config;
+    this.transport = transport;
     this.authService = new PCFAuth();
-    this.initializeAuth();
+    if (this.transport.requiresAuthentication) {
+      this.initializeAuth();
+    }
+    // Hand rotated tokens to the open connection as soon as they are issued
+    this.unsubscribeAuthStatus = this.authService.onAuthStatusChanged(() =>
+      this.handleTokenRotation()
+    );
   }
 
   /**
@@ -334,26 +751,311 @@ export class AgentClient {
   }
 
   /**
-   * Resets conversation context by clearing stored conversation ID
+   * Resets conversation context by clearing stored conversation IDs
+   * @param conversationKey - Conversation to reset; all conversations are reset when omitted
+   */
+  resetConversationContext(conversationKey?: string): void {
+    if (conversationKey === undefined) {
+      this.conversationIds.clear();
+      this.startedConversationKeys.clear();
+    } else {
+      this.conversationIds.delete(conversationKey);
+      this.startedConversationKeys.delete(conversationKey);
+    }
+  }
+
+  /**
+   * Releases resources held by this client: the agent connection and scheduled timers
+   */
+  dispose(): void {
+    this.unsubscribeAuthStatus();
+    this.authService.dispose();
+    this.disconnect();
+  }
+
+  /**
+   * Gets the state of the connection to the agent
+   * @returns ConnectionState - Current connection state
+   */
+  getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  /**
+   * Signs in if needed and connects to the agent ahead of the first turn
+   * @returns Promise<void>
+   * @throws Error if a token cannot be acquired or the transport cannot connect
+   */
+  async connect(): Promise<void> {
+    await this.ensureConnected();
+  }
+
+  /**
+   * Subscribes to connection state changes
+   * @param listener - Listener called immediately and after every state change
+   * @returns Function that unsubscribes the listener
+   */
+  subscribeToConnectionState(
+    listener: (state: ConnectionState) => void
+  ): () => void {
+    this.connectionStateListeners.push(listener);
+    listener(this.connectionState);
+    return () => {
+      this.connectionStateListeners = this.connectionStateListeners.filter(
+        (existing) => existing !== listener
+      );
+    };
+  }
+
+  /**
+   * Gets the ID of the agent conversation continued under a conversation key
+   * @param conversationKey - Key of the conversation, e.g. a tab ID
+   * @returns string | null - Current conversation ID, or null if none is active
+   */
+  getConversationId(
+    conversationKey: string = defaultConversationKey
+  ): string | null {
+    return this.conversationIds.get(conversationKey) || null;
+  }
+
+  /**
+   * Continues an existing conversation, e.g. after the page was reloaded
+   * @param conversationId - ID of the conversation to continue
+   * @param conversationKey - Key the conversation is continued under
+   */
+  resumeConversation(
+    conversationId: string,
+    conversationKey: string = defaultConversationKey
+  ): void {
+    this.conversationIds.set(conversationKey, conversationId);
+  }
+
+  /**
+   * Registers handler invoked before redirect sign-in navigates away from the page
+   * @param handler - Handler used to persist pending message and UI state; the
+   * redirect does not start if it rejects
+   */
+  setBeforeRedirectHandler(handler?: () => Promise<void>): void {
+    this.authService.setBeforeRedirectCallback(handler);
+  }
+
+  /**
+   * Checks whether the configured transport signs users in
+   * @returns boolean - True if an account is needed to reach the agent
+   */
+  usesAuthentication(): boolean {
+    return this.transport.requiresAuthentication;
+  }
+
+  /**
+   * Gets the ID of the signed-in user, as listed in Adaptive Card `refresh.userIds`
+   * @returns string | null - Object ID of the user, or null without sign-in
+   */
+  getUserId(): string | null {
+    if (!this.transport.requiresAuthentication) return null;
+    return this.authService.getUserId();
+  }
+
+  /**
+   * Lists signed-in accounts and the account used for requests
+   * @returns Promise<AccountState> - Accounts, or an empty state if sign-in is unavailable
+   */
+  async getAccountState(): Promise<AccountState> {
+    if (!this.transport.requiresAuthentication) {
+      return { accounts: [], activeAccountId: null };
+    }
+
+    try {
+      return await this.authService.getAccountState();
+    } catch (error) {
+      console.error("Failed to read signed-in accounts:", error);
+      return { accounts: [], activeAccountId: null };
+    }
+  }
+
+  /**
+   * Switches to another signed-in account and starts a fresh conversation
+   * @param homeAccountId - Home account ID of the account to switch to
+   * @throws Error if the account is no longer signed in
    */
-  resetConversationContext(): void {
-    this.currentConversationId = null;
+  async switchAccount(homeAccountId: string): Promise<void> {
+    await this.authService.switchAccount(homeAccountId);
+    this.disconnect();
+    this.resetConversationContext();
+  }
+
+  /**
+   * Signs in an additional account and starts a fresh conversation with it
+   * @throws Error if interactive sign-in fails
+   */
+  async addAccount(): Promise<void> {
+    await this.authService.addAccount();
+    this.disconnect();
+    this.resetConversationContext();
+  }
+
+  /**
+   * Signs the active account out, clearing its cached token and the conversation
+   */
+  async signOut(): Promise<void> {
+    await this.authService.signOut();
+    this.disconnect();
+    this.resetConversationContext();
+  }
+
+  /**
+   * Gets the current authentication status
+   * @returns AuthStatus - Token state, last auth method, and last error
+   */
+  getAuthStatus(): AuthStatus {
+    return this.authService.getAuthStatus();
+  }
+
+  /**
+   * Subscribes to authentication status changes
+   * @param listener - Listener called immediately and after every status change
+   * @returns Function that unsubscribes the listener
+   */
+  subscribeToAuthStatus(listener: (status: AuthStatus) => void): () => void {
+    listener(this.authService.getAuthStatus());
+    return this.authService.onAuthStatusChanged(listener);
+  }
+
+  /**
+   * Subscribes to changes of the signed-in accounts
+   * @param listener - Listener notified after sign-in, account switch, or sign-out
+   * @returns Function that unsubscribes the listener
+   */
+  onAccountsChanged(listener: () => void): () => void {
+    return this.authService.onAccountsChanged(listener);
+  }
+
+  /**
+   * Completes a pending redirect sign-in on application startup
+   * @returns Promise<boolean> - True if the page returned from a redirect sign-in
+   * @throws Error if the redirect response contains an authentication error
+   */
+  async completeRedirectSignIn(): Promise<boolean> {
+    if (!this.transport.requiresAuthentication) {
+      return false;
+    }
+    return this.authService.handleRedirectResult();
   }
 
   /**
    * Sends message to agent and returns structured response
    * @param message - User message to send to the agent
    * @param continueConversation - Whether to continue in same conversation context
+   * @param handlers - Optional callbacks notified as each activity of the turn arrives
+   * @param signal - Optional signal that stops the turn; activities received so far are kept
+   * @param conversationKey - Key of the conversation to continue; each key has its own agent conversation
    * @returns Promise<AgentResponse> - Structured response with text, adaptive cards, and metadata
    * @throws Error if configuration is invalid or communication fails
    */
   async sendMessage(
     message: string,
-    continueConversation: boolean = true
+    continueConversation: boolean = true,
+    handlers?: AgentStreamHandlers,
+    signal?: AbortSignal,
+    conversationKey: string = defaultConversationKey
+  ): Promise<AgentResponse> {
+    return this.sendActivity(
+      createMessageActivity(message),
+      continueConversation,
+      handlers,
+      signal,
+      conversationKey
+    );
+  }
+
+  /**
+   * Sends any activity to the agent, such as an event, an invoke, or a message with a value
+   * @param outgoingActivity - Activity to send; the conversation is filled in
+   * @param continueConversation - Whether to continue in same conversation context
+   * @param handlers - Optional callbacks notified as each activity of the turn arrives
+   * @param signal - Optional signal that stops the turn; activities received so far are kept
+   * @param conversationKey - Key of the conversation to continue; each key has its own agent conversation
+   * @returns Promise<AgentResponse> - Structured response with the agent's replies
+   */
+  async sendActivity(
+    outgoingActivity: OutgoingActivity,
+    continueConversation: boolean = true,
+    handlers?: AgentStreamHandlers,
+    signal?: AbortSignal,
+    conversationKey: string = defaultConversationKey
+  ): Promise<AgentResponse> {
+    return this.runTurn(
+      (onPartialResponse, retries, onActivity) =>
+        this.sendMessageToAgent(
+          outgoingActivity,
+          continueConversation,
+          onPartialResponse,
+          onActivity,
+          signal,
+          retries,
+          conversationKey
+        ),
+      handlers,
+      outgoingActivity.locale
+    );
+  }
+
+  /**
+   * Starts a new agent conversation and returns the activities the agent sends first
+   *
+   * The conversation replaces any earlier one under the same key, so the next
+   * message continues it. With the start event, the agent runs its Conversation
+   * Start topic and the response holds its greeting, cards and suggested actions.
+   * @param emitStartConversationEvent - Whether the agent should receive a start event
+   * @param handlers - Optional callbacks notified as each activity arrives
+   * @param signal - Optional signal that stops waiting; activities received so far are kept
+   * @param conversationKey - Key the new agent conversation is stored under
+   * @returns Promise<AgentResponse> - Structured response with the start activities
+   */
+  async startConversation(
+    emitStartConversationEvent: boolean = true,
+    handlers?: AgentStreamHandlers,
+    signal?: AbortSignal,
+    conversationKey: string = defaultConversationKey
+  ): Promise<AgentResponse> {
+    return this.runTurn(
+      (onPartialResponse, retries, onActivity) =>
+        this.startConversationWithAgent(
+          emitStartConversationEvent,
+          onPartialResponse,
+          onActivity,
+          signal,
+          retries,
+          conversationKey
+        ),
+      handlers
+    );
+  }
+
+  /**
+   * Runs one turn against the agent and turns its outcome into a structured response
+   * @param operation - Exchanges activities with the agent, reporting partial summaries and each activity
+   * @param handlers - Optional callbacks notified as each activity of the turn arrives
+   * @param locale - Locale the user's activity was sent with, if any
+   * @returns Promise<AgentResponse> - Structured response, or an error response if the turn failed
+   */
+  private async runTurn(
+    operation: (
+      onPartialResponse: (partialResponse: any) => void,
+      retries: RetryAttempt[],
+      onActivity: (activity: any) => void
+    ) => Promise<any>,
+    handlers?: AgentStreamHandlers,
+    locale?: string
   ): Promise<AgentResponse> {
     // Record start time for duration calculation
     const startTime = new Date();
     const startTimeISO = startTime.toISOString();
+    const retries: RetryAttempt[] = [];
+    let partialResponse: any = null;
+    // Arrival time of each activity, for the turn timeline
+    const arrivalTimes = new WeakMap<object, number>();
+    const getArrivalTime = (activity: any) => arrivalTimes.get(activity);
 
     try {
       const validation = this.validateConfig();
@@ -363,54 +1065,68 @@ export class AgentClient {
         );
       }
 
-      const accessToken = await this.authService.acquireToken();
-      await this.initializeCopilotClient(accessToken);
-      const agentResponse = await this.sendMessageToAgent(
-        message,
-        continueConversation
-      );
-
-      // Record end time and calculate duration
-      const endTime = new Date();
-      const endTimeISO = endTime.toISOString();
-      const duration = endTime.getTime() - startTime.getTime();
-
-      const response: AgentResponse = {
-        message:
-          agentResponse.text ||
-          agentResponse.message ||
-          (agentResponse.hasAdaptiveCards ? "" : "No response from agent"),
-        success: true,
-        timestamp: endTimeISO, // Use end time as the response timestamp
-        conversationId: agentResponse.conversationId || agentResponse.id || "",
-        metadata: {
-          botId: this.config.botIdentifier,
-          environmentId: this.config.environmentId,
-          authenticated: true,
-          agentResponseId: agentResponse.id,
-          duration: duration, // Calculated duration in milliseconds
-          startTime: startTimeISO,
-          endTime: endTimeISO,
-          conversationId: agentResponse.conversationId,
-          suggestedActions: agentResponse.suggestedActions || [],
-          adaptiveCards: agentResponse.adaptiveCards || [],
-          activitiesCount: agentResponse.activities?.length || 0,
-          hasAdaptiveCards: agentResponse.hasAdaptiveCards || false,
-          hasText: agentResponse.hasText || false,
-          hasSuggestedActions: agentResponse.hasSuggestedActions || false,
-          fullActivities: agentResponse.activities || [],
+      await this.ensureConnected();
+      const agentResponse = await operation(
+        (partial) => {
+          partialResponse = partial;
+          if (handlers?.onUpdate) {
+            handlers.onUpdate(
+              this.buildResponse(
+                partial,
+                startTime,
+                new Date(),
+                true,
+                retries,
+                locale,
+                getArrivalTime
+              )
+            );
+          }
         },
-      };
+        retries,
+        (activity) => {
+          arrivalTimes.set(activity, Date.now());
+          if (handlers?.onActivity) {
+            handlers.onActivity(activity);
+          }
+        }
+      );
 
-      return response;
+      return this.buildResponse(
+        agentResponse,
+        startTime,
+        new Date(),
+        false,
+        retries,
+        locale,
+        getArrivalTime
+      );
     } catch (error: any) {
       // Record end time for error cases as well
       const endTime = new Date();
       const endTimeISO = endTime.toISOString();
       const duration = endTime.getTime() - startTime.getTime();
 
+      // Keep whatever the agent sent before the turn was stopped
+      if (isAbortError(error) && partialResponse) {
+        const stoppedResponse = this.buildResponse(
+          partialResponse,
+          startTime,
+          endTime,
+          false,
+          retries,
+          locale,
+          getArrivalTime
+        );
+        stoppedResponse.metadata!.aborted = true;
+        stoppedResponse.metadata!.note = "Stopped before the turn completed";
+        return stoppedResponse;
+      }
+
       return {
-        message: `API Error: ${error.message}`,
+        message: isAbortError(error)
+          ? "⏹️ Stopped before the agent replied"
+          : `API Error: ${error.message}`,
         success: false,
         timestamp: endTimeISO,
         conversationId: "error",
@@ -422,135 +1138,391 @@ export class AgentClient {
           botId: this.config.botIdentifier,
           environmentId: this.config.environmentId,
           authenticated: false,
+          aborted: isAbortError(error),
+          locale: locale,
+          attempts: retries.length + 1,
+          retries: retries,
+          retryPolicy: this.getRetryPolicy(),
         },
       };
     }
   }
 
   /**
-   * Initializes Copilot Studio client with access token and connection settings
-   * @param accessToken - Valid access token for Power Platform API
+   * Gets the retry policy applied to transient failures
+   * @returns RetryPolicy - Configured policy with defaults filled in
+   */
+  getRetryPolicy(): RetryPolicy {
+    return resolveRetryPolicy(this.config.retryPolicy);
+  }
+
+  /**
+   * Connects the transport, reusing the existing connection while its token is unchanged
    * @returns Promise<void>
-   * @throws Error if client initialization fails
+   * @throws Error if a token cannot be acquired or the transport cannot connect
    */
-  private async initializeCopilotClient(accessToken: string): Promise<void> {
-    try {
-      const connectionSettings: ConnectionSettings = {
-        appClientId: this.config.clientId,
-        tenantId: this.config.tenantId,
-        environmentId: this.config.environmentId,
-        agentIdentifier: this.config.botIdentifier,
-      };
+  private async ensureConnected(): Promise<void> {
+    if (this.connectionState !== "connected") {
+      this.setConnectionState("connecting");
+    }
 
-      this.copilotClient = new CopilotStudioClient(
-        connectionSettings,
-        accessToken
-      );
-    } catch (error: any) {
-      throw new Error(
-        `Failed to initialize Copilot Studio Client: ${error.message}`
+    try {
+      const accessToken = this.transport.requiresAuthentication
+        ? await this.authService.acquireToken()
+        : null;
+      this.connectTransport(accessToken);
+    } catch (error) {
+      this.setConnectionState(
+        this.connectionState === "connecting" ? "idle" : this.connectionState
       );
+      throw error;
     }
   }
 
   /**
-   * Sends message to agent using Copilot Studio client
-   * @param message - User message to send
+   * Connects the transport with the given token and tracks when that token expires
+   * @param accessToken - Access token, or null when authentication is not required
+   */
+  private connectTransport(accessToken: string | null): void {
+    this.transport.connect(accessToken);
+    this.setConnectionState("connected");
+    this.scheduleExpiry();
+  }
+
+  /**
+   * Reconnects an open connection when the auth service has issued a new token
+   */
+  private handleTokenRotation(): void {
+    if (this.connectionState !== "connected") return;
+
+    const accessToken = this.authService.getCachedToken();
+    if (accessToken) {
+      this.connectTransport(accessToken);
+    }
+  }
+
+  /**
+   * Marks the connection as expired once the token it was built with expires
+   */
+  private scheduleExpiry(): void {
+    this.clearExpiryTimer();
+    if (!this.transport.requiresAuthentication) return;
+
+    const expiresAt = this.authService.getTokenInfo().expiresAt;
+    if (!expiresAt) return;
+
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      if (this.connectionState === "connected") {
+        this.setConnectionState("expired");
+      }
+    }, Math.max(0, new Date(expiresAt).getTime() - Date.now()));
+  }
+
+  /**
+   * Cancels the pending connection expiry timer, if any
+   */
+  private clearExpiryTimer(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  /**
+   * Disposes the transport connection and returns to the idle state
+   */
+  private disconnect(): void {
+    this.clearExpiryTimer();
+    this.transport.dispose();
+    this.setConnectionState("idle");
+  }
+
+  /**
+   * Updates the connection state and notifies listeners when it changes
+   * @param state - New connection state
+   */
+  private setConnectionState(state: ConnectionState): void {
+    if (this.connectionState === state) return;
+
+    this.connectionState = state;
+    this.connectionStateListeners.forEach((listener) => listener(state));
+  }
+
+  /**
+   * Builds structured agent response from summarized agent activities
+   * @param agentResponse - Summary of the activities received so far
+   * @param startTime - Time the turn was started
+   * @param endTime - Time of the last received activity or turn completion
+   * @param isStreaming - Whether the turn is still receiving activities
+   * @param retries - Failed attempts that were retried during the turn
+   * @param locale - Locale the user's activity was sent with, if any
+   * @param getArrivalTime - Optional lookup of when each activity arrived, for the timeline
+   * @returns AgentResponse - Structured response with text, adaptive cards, and metadata
+   */
+  private buildResponse(
+    agentResponse: any,
+    startTime: Date,
+    endTime: Date,
+    isStreaming: boolean,
+    retries: RetryAttempt[] = [],
+    locale?: string,
+    getArrivalTime?: (activity: any) => number | undefined
+  ): AgentResponse {
+    const endTimeISO = endTime.toISOString();
+
+    return {
+      message:
+        agentResponse.text ||
+        agentResponse.message ||
+        (agentResponse.hasAdaptiveCards || isStreaming
+          ? ""
+          : "No response from agent"),
+      success: true,
+      timestamp: endTimeISO, // Use end time as the response timestamp
+      conversationId: agentResponse.conversationId || agentResponse.id || "",
+      metadata: {
+        botId: this.config.botIdentifier,
+        environmentId: this.config.environmentId,
+        authenticated: this.transport.requiresAuthentication,
+        endpoint: this.transport.name,
+        agentResponseId: agentResponse.id,
+        duration: endTime.getTime() - startTime.getTime(), // Calculated duration in milliseconds
+        startTime: startTime.toISOString(),
+        endTime: endTimeISO,
+        conversationId: agentResponse.conversationId,
+        suggestedActions: agentResponse.suggestedActions || [],
+        adaptiveCards: agentResponse.adaptiveCards || [],
+        activitiesCount: countReplies(agentResponse.activities || []),
+        hasAdaptiveCards: agentResponse.hasAdaptiveCards || false,
+        hasText: agentResponse.hasText || false,
+        hasSuggestedActions: agentResponse.hasSuggestedActions || false,
+        fullActivities: agentResponse.activities || [],
+        timeline: createActivityTimeline(
+          agentResponse.activities || [],
+          startTime.toISOString(),
+          getArrivalTime
+        ),
+        isStreaming: isStreaming,
+        locale: locale,
+        attempts: retries.length + 1,
+        retries: retries,
+        retryPolicy: this.getRetryPolicy(),
+      },
+    };
+  }
+
+  /**
+   * Sends an activity to the agent using the configured transport
+   * @param outgoingActivity - Activity to send
    * @param continueConversation - Whether to continue in same conversation context
-   * @returns Promise<any> - Agent response from Copilot Studio
-   * @throws Error if client is not initialized or message sending fails
+   * @param onPartialResponse - Optional callback with the summary of all activities received so far
+   * @param onActivity - Optional callback for each raw activity as it arrives
+   * @param signal - Optional signal that stops the turn
+   * @param retries - Collects the failed attempts that were retried
+   * @param conversationKey - Key of the conversation to continue
+   * @returns Promise<any> - Agent response from the transport
+   * @throws Error if message sending fails or the signal fires
    */
   private async sendMessageToAgent(
-    message: string,
-    continueConversation: boolean = true
+    outgoingActivity: OutgoingActivity,
+    continueConversation: boolean = true,
+    onPartialResponse?: (partialResponse: any) => void,
+    onActivity?: (activity: any) => void,
+    signal?: AbortSignal,
+    retries: RetryAttempt[] = [],
+    conversationKey: string = defaultConversationKey
   ): Promise<any> {
-    if (!this.copilotClient) {
-      throw new Error("Copilot Studio Client not initialized");
-    }
-
     try {
       let conversationId: string;
 
+      // The first message after Start conversation continues the started
+      // conversation, so its greeting is not thrown away
+      const continuesStarted =
+        this.startedConversationKeys.delete(conversationKey);
+
       // Reset conversation context if not continuing
-      if (!continueConversation) {
-        this.currentConversationId = null;
+      if (!continueConversation && !continuesStarted) {
+        this.conversationIds.delete(conversationKey);
       }
 
       // Use existing conversation ID or start new conversation
-      if (this.currentConversationId && continueConversation) {
-        conversationId = this.currentConversationId;
+      const currentConversationId = this.conversationIds.get(conversationKey);
+      if (currentConversationId && (continueConversation || continuesStarted)) {
+        conversationId = currentConversationId;
       } else {
-        const conversationActivity =
-          await this.copilotClient.startConversationAsync(true);
-        const newConversationId = conversationActivity.conversation?.id;
-
-        if (!newConversationId) {
-          throw new Error("Failed to get conversation ID from agent");
-        }
-
-        conversationId = newConversationId;
+        const started = await this.withRetry(
+          () => this.transport.startConversation(true, signal),
+          retries,
+          signal
+        );
+        conversationId = started.conversationId;
         // Store conversation ID for future use
-        this.currentConversationId = conversationId;
+        this.conversationIds.set(conversationKey, conversationId);
       }
 
-      const replies = await this.copilotClient.askQuestionAsync(
-        message,
-        conversationId
+      const activity = Activity.fromObject({
+        ...outgoingActivity,
+        conversation: { id: conversationId },
+      });
+      // Replays keep the same conversation ID; a turn that already streamed
+      // activities is not replayed so the agent does not answer twice
+      let receivedActivities: any[] = [];
+      const replies = await this.withRetry(
+        () => {
+          receivedActivities = [];
+          return this.transport.sendActivity(
+            activity,
+            conversationId,
+            (received) => {
+              receivedActivities.push(received);
+              if (onActivity) {
+                onActivity(received);
+              }
+              if (onPartialResponse) {
+                onPartialResponse(
+                  summarizeActivities(receivedActivities, conversationId)
+                );
+              }
+            },
+            signal
+          );
+        },
+        retries,
+        signal,
+        () => receivedActivities.length === 0
       );
 
-      let responseText = "";
-      let textMessages: string[] = [];
-      let suggestedActions: any[] = [];
-      let adaptiveCards: any[] = [];
-      let allActivities: any[] = [];
-
-      replies.forEach((activity: any) => {
-        allActivities.push(activity);
-
-        if (activity.type === "message") {
-          if (activity.text && activity.text.trim()) {
-            textMessages.push(activity.text.trim());
-          }
+      return summarizeActivities(replies, conversationId);
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw new Error(`Failed to communicate with agent: ${error.message}`);
+    }
+  }
 
-          if (activity.attachments && activity.attachments.length > 0) {
-            activity.attachments.forEach((attachment: any) => {
-              if (
-                attachment.contentType ===
-                "application/vnd.microsoft.card.adaptive"
-              ) {
-                adaptiveCards.push({
-                  content: attachment.content,
-                  contentType: attachment.contentType,
-                  name: attachment.name || "Adaptive Card",
-                });
+  /**
+   * Starts a new conversation using the configured transport and collects its first activities
+   * @param emitStartConversationEvent - Whether the agent should receive a start event
+   * @param onPartialResponse - Optional callback with the summary of all activities received so far
+   * @param onActivity - Optional callback for each raw activity as it arrives
+   * @param signal - Optional signal that stops waiting for the conversation
+   * @param retries - Collects the failed attempts that were retried
+   * @param conversationKey - Key the new agent conversation is stored under
+   * @returns Promise<any> - Summary of the start activities
+   * @throws Error if the conversation cannot be started or the signal fires
+   */
+  private async startConversationWithAgent(
+    emitStartConversationEvent: boolean,
+    onPartialResponse?: (partialResponse: any) => void,
+    onActivity?: (activity: any) => void,
+    signal?: AbortSignal,
+    retries: RetryAttempt[] = [],
+    conversationKey: string = defaultConversationKey
+  ): Promise<any> {
+    try {
+      // A start that already streamed activities is not replayed
+      let receivedActivities: any[] = [];
+      const started = await this.withRetry(
+        () => {
+          receivedActivities = [];
+          return this.transport.startConversation(
+            emitStartConversationEvent,
+            signal,
+            (received) => {
+              receivedActivities.push(received);
+              if (onActivity) {
+                onActivity(received);
               }
-            });
-          }
+              if (onPartialResponse) {
+                onPartialResponse(
+                  summarizeActivities(
+                    receivedActivities,
+                    received.conversation?.id || ""
+                  )
+                );
+              }
+            }
+          );
+        },
+        retries,
+        signal,
+        () => receivedActivities.length === 0
+      );
 
-          if (activity.suggestedActions?.actions) {
-            suggestedActions.push(...activity.suggestedActions.actions);
-          }
+      this.conversationIds.set(conversationKey, started.conversationId);
+      this.startedConversationKeys.add(conversationKey);
+      return summarizeActivities(started.activities, started.conversationId);
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw new Error(`Failed to start conversation: ${error.message}`);
+    }
+  }
+
+  /**
+   * Runs a transport operation, retrying transient failures according to the retry policy
+   * @param operation - Transport operation to run
+   * @param retries - Collects the failed attempts that were retried
+   * @param signal - Optional signal that stops retrying
+   * @param canRetry - Optional check whether the failed attempt may be replayed
+   * @returns Promise<T> - Result of the first successful attempt
+   * @throws Error if the last attempt fails, the failure is not transient or the signal fires
+   */
+  private async withRetry<T>(
+    operation: () => Promise<T>,
+    retries: RetryAttempt[],
+    signal?: AbortSignal,
+    canRetry: () => boolean = () => true
+  ): Promise<T> {
+    const policy = this.getRetryPolicy();
+
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(signal);
+      try {
+        return await this.withAuthRetry(operation);
+      } catch (error: any) {
+        if (
+          attempt >= policy.maxAttempts ||
+          !isRetryableError(error) ||
+          !canRetry()
+        ) {
+          throw error;
         }
-      });
 
-      // Join all text messages with line breaks
-      responseText = textMessages.join("\n\n");
+        const { delayMs, retryAfter } = getRetryDelay(policy, attempt, error);
+        retries.push({
+          attempt,
+          error: error?.message || String(error),
+          status: getErrorStatus(error),
+          delayMs,
+          retryAfter,
+          timestamp: new Date().toISOString(),
+        });
+        await abortableDelay(delayMs, signal);
+      }
+    }
+  }
 
-      return {
-        text: responseText || "",
-        message: responseText || "",
-        id: `response-${Date.now()}`,
-        conversationId: conversationId,
-        activities: allActivities,
-        suggestedActions: suggestedActions,
-        adaptiveCards: adaptiveCards,
-        agentResponseReceived: true,
-        hasAdaptiveCards: adaptiveCards.length > 0,
-        hasText: !!responseText,
-        hasSuggestedActions: suggestedActions.length > 0,
-      };
-    } catch (error: any) {
-      throw new Error(`Failed to communicate with agent: ${error.message}`);
+  /**
+   * Runs a transport operation, replaying it once with a fresh token if the agent rejects auth
+   * @param operation - Transport operation to run
+   * @returns Promise<T> - Result of the operation or of its replay
+   * @throws Error if the operation fails for another reason or the replay fails
+   */
+  private async withAuthRetry<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!this.transport.requiresAuthentication || !isAuthRejection(error)) {
+        throw error;
+      }
+
+      const accessToken = await this.authService.refreshTokenSilently();
+      this.connectTransport(accessToken);
+      return operation();
     }
   }
 
@@ -561,6 +1533,11 @@ export class AgentClient {
   public validateConfig(): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
+    // Scripted agents run locally and need no connection details
+    if (!this.transport.requiresAuthentication) {
+      return { isValid: true, errors };
+    }
+
     if (!this.config.clientId) {
       errors.push("Client ID is required");
     }
@@ -569,20 +1546,35 @@ export class AgentClient {
       errors.push("Tenant ID is required");
     }
 
-    if (!this.config.botIdentifier) {
-      errors.push("Bot Identifier is required");
-    }
+    if (this.config.connectionMode === "directConnect") {
+      const urlError = validateDirectConnectUrl(
+        this.config.directConnectUrl || ""
+      );
+      if (urlError) {
+        errors.push(urlError);
+      }
+    } else {
+      if (!this.config.botIdentifier) {
+        errors.push("Bot Identifier is required");
+      }
 
-    if (!this.config.environmentId) {
-      errors.push("Environment ID is required");
+      if (!this.config.environmentId) {
+        errors.push("Environment ID is required");
+      }
     }
 
     if (this.config.clientId && !this.isValidGuid(this.config.clientId)) {
       errors.push("Client ID must be a valid GUID");
     }
 
-    if (this.config.tenantId && !this.isValidGuid(this.config.tenantId)) {
-      errors.push("Tenant ID must be a valid GUID");
+    if (this.config.tenantId && !isValidTenant(this.config.tenantId)) {
+      errors.push(
+        "Tenant must be a GUID, 'organizations', 'common' or a verified domain"
+      );
+    }
+
+    if (this.config.authority && !isValidAuthority(this.config.authority)) {
+      errors.push("Authority must be an absolute HTTPS URL");
     }
 
     return {
@@ -603,11 +1595,33 @@ export class AgentClient {
   }
 }
 
+/**
+ * Checks whether an error is an authentication rejection (HTTP 401/403) from the agent endpoint
+ * @param error - Error thrown by a transport
+ * @returns boolean - True if the request was rejected for authentication reasons
+ */
+function isAuthRejection(error: any): boolean {
+  const status = error?.status ?? error?.response?.status;
+  return status === 401 || status === 403;
+}
+
 /**
  * Factory function to create new AgentClient instance
  * @param config - Agent configuration with authentication and connection details
  * @returns AgentClient - New configured agent client instance
  */
 export function createAgentClient(config: AgentConfig): AgentClient {
-  return new AgentClient(config);
+  return new AgentClient(config, createAgentTransport(config));
+}
+
+/**
+ * Factory function to create the transport selected in the agent configuration
+ * @param config - Agent configuration with transport selection
+ * @returns AgentTransport - Copilot Studio or scripted agent transport
+ */
+export function createAgentTransport(config: AgentConfig): AgentTransport {
+  if (config.transportType === "scripted") {
+    return new ScriptedAgentTransport(getScriptedScenario(config.scenarioId));
+  }
+  return new CopilotStudioTransport(config);
 }
@@ -0,0 +1,71 @@
+/**
+ * Agent Transport Abstraction
+ *
+ * Defines the contract AgentClient uses to reach an agent. Implementations decide
+ * how conversations are started and how activities travel to and from the agent,
+ * so the rest of the application can run against a live tenant or a local script.
+ */
+
+import { Activity } from "@microsoft/agents-activity";
+import { ActivityListener } from "./streamingCopilotClient";
+
+/**
+ * Conversation started by a transport, with the activities the agent sent first
+ */
+export interface StartedConversation {
+  conversationId: string;
+  activities: Activity[]; // Greeting activities, empty when no start event was emitted
+}
+
+/**
+ * Transport used by AgentClient to exchange activities with an agent
+ */
+export interface AgentTransport {
+  /** Display name of the transport, shown in response metadata */
+  readonly name: string;
+
+  /** Whether an access token must be acquired before connecting */
+  readonly requiresAuthentication: boolean;
+
+  /**
+   * Creates the underlying client, reusing it while the access token is unchanged
+   * @param accessToken - Access token, or null when authentication is not required
+   * @throws Error if the transport cannot be initialized
+   */
+  connect(accessToken: string | null): void;
+
+  /**
+   * Releases the underlying client; the next connect() creates a new one
+   */
+  dispose(): void;
+
+  /**
+   * Starts a new conversation with the agent
+   * @param emitStartConversationEvent - Whether the agent should receive a start event
+   * @param signal - Optional signal that cancels the request
+   * @param onActivity - Optional listener called for each activity the agent sends on start
+   * @returns Promise<StartedConversation> - New conversation and its start activities
+   * @throws Error if no conversation could be started or the signal fires
+   */
+  startConversation(
+    emitStartConversationEvent: boolean,
+    signal?: AbortSignal,
+    onActivity?: ActivityListener
+  ): Promise<StartedConversation>;
+
+  /**
+   * Sends an activity and streams back the agent's reply activities
+   * @param activity - Activity to send
+   * @param conversationId - Conversation the activity belongs to
+   * @param onActivity - Optional listener called for each received activity
+   * @param signal - Optional signal that cancels the turn
+   * @returns Promise<Activity[]> - All activities received during the turn
+   * @throws Error if the turn fails or the signal fires
+   */
+  sendActivity(
+    activity: Activity,
+    conversationId: string,
+    onActivity?: ActivityListener,
+    signal?: AbortSignal
+  ): Promise<Activity[]>;
+}
@@ -0,0 +1,128 @@
+/**
+ * Attachment Service
+ *
+ * Turns files picked, dropped, or pasted by the user into activity attachments.
+ * Files are embedded as data URLs with their content type, after checking them
+ * against the size and count limits the agent channel accepts.
+ */
+
+import { ActivityAttachment } from "../types/agent";
+
+export const maxAttachmentBytes = 4 * 1024 * 1024;
+export const maxAttachmentCount = 5;
+
+// Content types for files the browser reports without one
+const contentTypesByExtension: Record<string, string> = {
+  csv: "text/csv",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  json: "application/json",
+  md: "text/markdown",
+  pdf: "application/pdf",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  txt: "text/plain",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * Gets the content type of a file, falling back to its extension
+ * @param file - File chosen by the user
+ * @returns string - MIME type of the file
+ */
+export function getContentType(file: File): string {
+  if (file.type) {
+    return file.type;
+  }
+  const extension = file.name.split(".").pop()?.toLowerCase() || "";
+  return contentTypesByExtension[extension] || "application/octet-stream";
+}
+
+/**
+ * Formats a file size for display
+ * @param bytes - Size in bytes
+ * @returns string - Size in B, KB, or MB
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Gets the size of the file behind an attachment's data URL
+ * @param attachment - Attachment with a base64 data URL
+ * @returns number - Decoded size in bytes, or 0 without a data URL
+ */
+export function getAttachmentSize(attachment: ActivityAttachment): number {
+  const data = attachment.contentUrl?.split(",")[1] || "";
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.max(0, Math.floor((data.length * 3) / 4) - padding);
+}
+
+/**
+ * Checks whether an attachment is an image that can be previewed
+ * @param attachment - Attachment to check
+ * @returns boolean - True for image attachments with a URL
+ */
+export function isImageAttachment(attachment: ActivityAttachment): boolean {
+  return (
+    attachment.contentType.indexOf("image/") === 0 && !!attachment.contentUrl
+  );
+}
+
+/**
+ * Reads files into attachments, skipping files over the limits
+ * @param files - Files picked, dropped, or pasted by the user
+ * @param existingCount - Number of attachments already added to the message
+ * @returns Promise with the new attachments and a message for every rejected file
+ */
+export async function readAttachments(
+  files: File[],
+  existingCount: number
+): Promise<{ attachments: ActivityAttachment[]; errors: string[] }> {
+  const attachments: ActivityAttachment[] = [];
+  const errors: string[] = [];
+
+  for (const file of files) {
+    if (existingCount + attachments.length >= maxAttachmentCount) {
+      errors.push(
+        `${file.name}: at most ${maxAttachmentCount} files can be attached`
+      );
+    } else if (file.size > maxAttachmentBytes) {
+      errors.push(
+        `${file.name} is ${formatFileSize(
+          file.size
+        )}; the limit is ${formatFileSize(maxAttachmentBytes)}`
+      );
+    } else {
+      try {
+        attachments.push({
+          contentType: getContentType(file),
+          contentUrl: await readAsDataUrl(file),
+          name: file.name,
+        });
+      } catch (error: any) {
+        errors.push(`${file.name}: ${error.message}`);
+      }
+    }
+  }
+
+  return { attachments, errors };
+}
+
+/**
+ * Reads a file as a base64 data URL
+ * @param file - File to read
+ * @returns Promise<string> - Data URL with the file contents
+ */
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () =>
+      reject(reader.error || new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
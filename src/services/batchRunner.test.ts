@@ -0,0 +1,137 @@
+import { BatchResult } from "../types/agent";
+import { AgentClient } from "./agentService";
+import {
+  checkExpectations,
+  createResultsCsv,
+  parseBatchFile,
+  runBatch,
+} from "./batchRunner";
+import { createResponse } from "./testResponses";
+
+describe("parseBatchFile", () => {
+  it("reads CSV with a header, quoted values and a byte order mark", () => {
+    const csv =
+      '\uFEFFtext,locale,textContains,cardPresent,maxLatencyMs\r\n"Hello, there",en-US,hi,yes,2000\r\n"Say ""hi""\nplease",,,no,\r\n\r\n';
+    expect(parseBatchFile(csv, "batch.csv")).toEqual([
+      {
+        text: "Hello, there",
+        locale: "en-US",
+        expectTextContains: "hi",
+        expectCard: true,
+        maxLatencyMs: 2000,
+      },
+      { text: 'Say "hi"\nplease', expectCard: false },
+    ]);
+  });
+
+  it("matches column names case-insensitively", () => {
+    expect(parseBatchFile("Text,SuggestedAction\nOrder,Track order")).toEqual([
+      { text: "Order", expectSuggestedAction: "Track order" },
+    ]);
+  });
+
+  it("reads JSON arrays of strings and objects", () => {
+    expect(
+      parseBatchFile('["Hi", {"text": "Order", "textRegex": "^Sure"}]')
+    ).toEqual([{ text: "Hi" }, { text: "Order", expectTextRegex: "^Sure" }]);
+  });
+
+  it("rejects files without utterances and invalid expectations", () => {
+    expect(() => parseBatchFile("text\n")).toThrow(
+      "The file does not contain any utterances"
+    );
+    expect(() => parseBatchFile("text,locale\n,en-US")).toThrow(
+      "Utterance 1 has no text"
+    );
+    expect(() => parseBatchFile("text,textRegex\nHi,(")).toThrow(
+      "Utterance 1 has an invalid textRegex: ("
+    );
+    expect(() => parseBatchFile("text,maxLatencyMs\nHi,soon")).toThrow(
+      "Utterance 1 has an invalid maxLatencyMs: soon"
+    );
+    expect(() => parseBatchFile('{"text": "Hi"}', "batch.json")).toThrow(
+      "A JSON batch file must contain an array of utterances"
+    );
+  });
+});
+
+describe("checkExpectations", () => {
+  it("lists every expectation that was not met", () => {
+    const result = checkExpectations(
+      0,
+      {
+        text: "Hi",
+        expectTextContains: "hello",
+        expectCard: true,
+        expectSuggestedAction: "Help",
+        maxLatencyMs: 50,
+      },
+      createResponse("Good morning", {
+        suggestedActions: [{ title: "Order" }],
+      })
+    );
+    expect(result.status).toBe("failed");
+    expect(result.failures).toEqual([
+      'Text does not contain "hello"',
+      "No adaptive card in the response",
+      'No suggested action titled "Help"',
+      "Took 100ms, limit is 50ms",
+    ]);
+  });
+
+  it("passes when every expectation is met", () => {
+    const result = checkExpectations(
+      0,
+      { text: "Hi", expectTextRegex: "^hello", expectSuggestedAction: "help" },
+      createResponse("Hello there", { suggestedActions: [{ title: "Help" }] })
+    );
+    expect(result.status).toBe("passed");
+  });
+});
+
+describe("createResultsCsv", () => {
+  it("quotes separators and neutralizes spreadsheet formulas", () => {
+    const result: BatchResult = {
+      index: 0,
+      utterance: { text: '=HYPERLINK("https://evil.example")' },
+      status: "passed",
+      failures: [],
+      duration: 100,
+      response: createResponse("+1, or @mention -2"),
+    };
+    const [, row] = createResultsCsv([result]).split("\r\n");
+    expect(row).toBe(
+      '1,"\'=HYPERLINK(""https://evil.example"")",,passed,,100,"\'+1, or @mention -2",conversation-1'
+    );
+  });
+});
+
+describe("runBatch", () => {
+  it("connects once before sending utterances concurrently", async () => {
+    const calls: string[] = [];
+    const client = {
+      connect: jest.fn(async () => {
+        calls.push("connect");
+      }),
+      sendActivity: jest.fn(async (activity: any) => {
+        calls.push(activity.text);
+        return createResponse(`Echo ${activity.text}`);
+      }),
+      resetConversationContext: jest.fn(),
+    } as unknown as AgentClient;
+
+    const results = await runBatch(
+      client,
+      [{ text: "one" }, { text: "two" }, { text: "three" }],
+      { concurrency: 3, conversationMode: "fresh" }
+    );
+
+    expect(client.connect).toHaveBeenCalledTimes(1);
+    expect(calls[0]).toBe("connect");
+    expect(results.map((result) => result.response.message)).toEqual([
+      "Echo one",
+      "Echo two",
+      "Echo three",
+    ]);
+  });
+});
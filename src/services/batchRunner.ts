@@ -0,0 +1,425 @@
+/**
+ * Batch Runner
+ *
+ * Sends a list of utterances through AgentClient and checks every response against
+ * the utterance's expectations: text it must contain or match, whether a card is
+ * present, a suggested action it must offer and the maximum latency. Utterances are
+ * read from CSV or JSON files and results can be exported in both formats.
+ */
+
+import {
+  AgentResponse,
+  BatchConversationMode,
+  BatchResult,
+  BatchUtterance,
+} from "../types/agent";
+import { AgentClient } from "./agentService";
+import { downloadFile } from "./fileDownload";
+import { createMessageActivity } from "./outgoingActivity";
+
+/**
+ * Options for a batch run
+ */
+export interface BatchRunOptions {
+  concurrency: number; // Utterances in flight at once; shared conversations always use 1
+  conversationMode: BatchConversationMode; // Fresh conversation per utterance or one shared conversation
+  signal?: AbortSignal; // Stops the run; utterances not yet sent are left out
+  onResult?: (result: BatchResult) => void; // Called as soon as an utterance completes
+}
+
+/**
+ * Parses a CSV or JSON list of utterances
+ *
+ * CSV files need a header row. JSON files hold an array of strings or objects.
+ * Both use the fields `text`, `locale`, `textContains`, `textRegex`,
+ * `cardPresent`, `suggestedAction` and `maxLatencyMs`; only `text` is required.
+ * @param contents - File contents
+ * @param fileName - File name, used to tell JSON from CSV
+ * @returns BatchUtterance[] - Parsed utterances
+ * @throws Error if the file cannot be parsed or an utterance is invalid
+ */
+export function parseBatchFile(
+  contents: string,
+  fileName: string = ""
+): BatchUtterance[] {
+  // Spreadsheet exports often start with a byte order mark
+  const text = contents.replace(/^\uFEFF/, "");
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  const records = isJson ? parseJsonRecords(text) : parseCsvRecords(text);
+
+  if (records.length === 0) {
+    throw new Error("The file does not contain any utterances");
+  }
+  return records.map((record, index) => toUtterance(record, index + 1));
+}
+
+/**
+ * Sends utterances to the agent and checks every response
+ * @param agentClient - Client connected to the agent under test
+ * @param utterances - Utterances to send
+ * @param options - Concurrency, conversation mode, abort signal and result callback
+ * @returns Promise<BatchResult[]> - Results of the completed utterances, in input order
+ */
+export async function runBatch(
+  agentClient: AgentClient,
+  utterances: BatchUtterance[],
+  options: BatchRunOptions
+): Promise<BatchResult[]> {
+  const runId = Date.now();
+  const sharedKey = `batch-${runId}`;
+  const isShared = options.conversationMode === "shared";
+  // Turns of one conversation must not overlap
+  const concurrency = isShared
+    ? 1
+    : Math.max(1, Math.min(Math.floor(options.concurrency) || 1, 10));
+  const results: BatchResult[] = [];
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < utterances.length && !options.signal?.aborted) {
+      const index = nextIndex++;
+      const conversationKey = isShared ? sharedKey : `${sharedKey}-${index}`;
+      const response = await agentClient.sendActivity(
+        createMessageActivity(
+          utterances[index].text,
+          [],
+          utterances[index].locale
+        ),
+        true,
+        undefined,
+        options.signal,
+        conversationKey
+      );
+      if (!isShared) {
+        agentClient.resetConversationContext(conversationKey);
+      }
+      if (response.metadata?.aborted) return;
+
+      const result = checkExpectations(index, utterances[index], response);
+      results.push(result);
+      if (options.onResult) {
+        options.onResult(result);
+      }
+    }
+  };
+
+  // Sign in once before the workers start, so they do not each start a sign-in
+  await agentClient.connect();
+
+  try {
+    const workers: Promise<void>[] = [];
+    for (let worker = 0; worker < concurrency; worker++) {
+      workers.push(runNext());
+    }
+    await Promise.all(workers);
+  } finally {
+    if (isShared) {
+      agentClient.resetConversationContext(sharedKey);
+    }
+  }
+
+  return results.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Checks a response against the expectations of its utterance
+ * @param index - Position of the utterance in the batch
+ * @param utterance - Utterance with its expectations
+ * @param response - Response received from the agent
+ * @returns BatchResult - Result with every expectation that was not met
+ */
+export function checkExpectations(
+  index: number,
+  utterance: BatchUtterance,
+  response: AgentResponse
+): BatchResult {
+  const duration = response.metadata?.duration || 0;
+
+  if (!response.success) {
+    return {
+      index,
+      utterance,
+      status: "error",
+      failures: [String(response.metadata?.error || response.message)],
+      duration,
+      response,
+    };
+  }
+
+  const failures: string[] = [];
+  const text = response.message || "";
+  const cards = response.metadata?.adaptiveCards || [];
+  const actionTitles = (response.metadata?.suggestedActions || []).map(
+    (action: any) => String(action.title || action.value || "")
+  );
+
+  if (
+    utterance.expectTextContains &&
+    text.toLowerCase().indexOf(utterance.expectTextContains.toLowerCase()) ===
+      -1
+  ) {
+    failures.push(`Text does not contain "${utterance.expectTextContains}"`);
+  }
+  if (
+    utterance.expectTextRegex &&
+    !new RegExp(utterance.expectTextRegex, "i").test(text)
+  ) {
+    failures.push(`Text does not match /${utterance.expectTextRegex}/`);
+  }
+  if (utterance.expectCard === true && cards.length === 0) {
+    failures.push("No adaptive card in the response");
+  }
+  if (utterance.expectCard === false && cards.length > 0) {
+    failures.push("Unexpected adaptive card in the response");
+  }
+  if (
+    utterance.expectSuggestedAction &&
+    !actionTitles.some(
+      (title) =>
+        title.toLowerCase() === utterance.expectSuggestedAction!.toLowerCase()
+    )
+  ) {
+    failures.push(
+      `No suggested action titled "${utterance.expectSuggestedAction}"`
+    );
+  }
+  if (
+    utterance.maxLatencyMs !== undefined &&
+    duration > utterance.maxLatencyMs
+  ) {
+    failures.push(`Took ${duration}ms, limit is ${utterance.maxLatencyMs}ms`);
+  }
+
+  return {
+    index,
+    utterance,
+    status: failures.length === 0 ? "passed" : "failed",
+    failures,
+    duration,
+    response,
+  };
+}
+
+/**
+ * Downloads batch results as a CSV or JSON file
+ * @param results - Results to export
+ * @param format - File format
+ */
+export function downloadBatchResults(
+  results: BatchResult[],
+  format: "csv" | "json"
+): void {
+  downloadFile(
+    format === "csv" ? createResultsCsv(results) : createResultsJson(results),
+    `batch-results-${new Date().toISOString().replace(/[:.]/g, "-")}.${format}`,
+    format === "csv" ? "text/csv" : "application/json"
+  );
+}
+
+/**
+ * Serializes results as CSV with one row per utterance
+ *
+ * Cells that a spreadsheet would run as a formula are prefixed with a quote, as
+ * utterances and agent replies are not trusted.
+ * @param results - Results to serialize
+ * @returns string - CSV with a header row
+ */
+export function createResultsCsv(results: BatchResult[]): string {
+  const rows = [
+    [
+      "index",
+      "text",
+      "locale",
+      "status",
+      "failures",
+      "durationMs",
+      "responseText",
+      "conversationId",
+    ],
+    ...results.map((result) => [
+      String(result.index + 1),
+      result.utterance.text,
+      result.utterance.locale || "",
+      result.status,
+      result.failures.join("; "),
+      String(result.duration),
+      result.response.message,
+      result.response.conversationId,
+    ]),
+  ];
+
+  return rows
+    .map((row) =>
+      row
+        .map((cell) => {
+          const value = /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+          return /[",\r\n]/.test(value)
+            ? `"${value.replace(/"/g, '""')}"`
+            : value;
+        })
+        .join(",")
+    )
+    .join("\r\n");
+}
+
+/**
+ * Serializes results as JSON, including the raw activities of every response
+ * @param results - Results to serialize
+ * @returns string - Indented JSON array
+ */
+function createResultsJson(results: BatchResult[]): string {
+  return JSON.stringify(
+    results.map((result) => ({
+      index: result.index + 1,
+      utterance: result.utterance,
+      status: result.status,
+      failures: result.failures,
+      durationMs: result.duration,
+      responseText: result.response.message,
+      conversationId: result.response.conversationId,
+      activities: result.response.metadata?.fullActivities || [],
+    })),
+    null,
+    2
+  );
+}
+
+/**
+ * Reads records from a JSON array of strings or objects
+ * @param contents - File contents
+ * @returns Array<Record<string, any>> - One record per utterance
+ * @throws Error if the contents are not a JSON array
+ */
+function parseJsonRecords(contents: string): Array<Record<string, any>> {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(contents);
+  } catch (error: any) {
+    throw new Error(`Invalid JSON: ${error.message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("A JSON batch file must contain an array of utterances");
+  }
+
+  return parsed.map((item: any) =>
+    typeof item === "string" ? { text: item } : item || {}
+  );
+}
+
+/**
+ * Reads records from CSV with a header row; quoted values may contain commas,
+ * quotes and line breaks
+ * @param contents - File contents
+ * @returns Array<Record<string, string>> - One record per non-empty data row
+ */
+function parseCsvRecords(contents: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < contents.length; i++) {
+    const char = contents[i];
+    if (inQuotes) {
+      if (char === '"' && contents[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && contents[i + 1] === "\n") i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+  row.push(value);
+  rows.push(row);
+
+  const nonEmptyRows = rows.filter((cells) =>
+    cells.some((cell) => cell.trim())
+  );
+  const [header, ...dataRows] = nonEmptyRows;
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim());
+  return dataRows.map((cells) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = (cells[index] || "").trim();
+    });
+    return record;
+  });
+}
+
+/**
+ * Converts a CSV or JSON record into an utterance
+ * @param record - Record read from the file
+ * @param rowNumber - 1-based position, used in error messages
+ * @returns BatchUtterance - Utterance with its expectations
+ * @throws Error if the text is missing or an expectation is invalid
+ */
+function toUtterance(
+  record: Record<string, any>,
+  rowNumber: number
+): BatchUtterance {
+  const field = (name: string): string => {
+    const key = Object.keys(record).find(
+      (candidate) => candidate.toLowerCase() === name.toLowerCase()
+    );
+    const value = key !== undefined ? record[key] : undefined;
+    return value === undefined || value === null ? "" : String(value).trim();
+  };
+
+  const utterance: BatchUtterance = { text: field("text") };
+  if (!utterance.text) {
+    throw new Error(`Utterance ${rowNumber} has no text`);
+  }
+
+  if (field("locale")) {
+    utterance.locale = field("locale");
+  }
+  if (field("textContains")) {
+    utterance.expectTextContains = field("textContains");
+  }
+  if (field("textRegex")) {
+    try {
+      new RegExp(field("textRegex"));
+    } catch {
+      throw new Error(
+        `Utterance ${rowNumber} has an invalid textRegex: ${field("textRegex")}`
+      );
+    }
+    utterance.expectTextRegex = field("textRegex");
+  }
+  if (field("cardPresent")) {
+    utterance.expectCard = /^(true|yes|1)$/i.test(field("cardPresent"));
+  }
+  if (field("suggestedAction")) {
+    utterance.expectSuggestedAction = field("suggestedAction");
+  }
+  if (field("maxLatencyMs")) {
+    const maxLatencyMs = Number(field("maxLatencyMs"));
+    if (isNaN(maxLatencyMs) || maxLatencyMs <= 0) {
+      throw new Error(
+        `Utterance ${rowNumber} has an invalid maxLatencyMs: ${field(
+          "maxLatencyMs"
+        )}`
+      );
+    }
+    utterance.maxLatencyMs = maxLatencyMs;
+  }
+
+  return utterance;
+}
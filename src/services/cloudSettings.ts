@@ -0,0 +1,174 @@
+/**
+ * Cloud Settings
+ *
+ * Maps the cloud selected in the agent configuration to the sign-in authority,
+ * Power Platform token scope and Copilot Studio cloud used for that cloud, and
+ * applies any custom authority or scopes configured on top of those defaults.
+ * In direct-connect mode the cloud is taken from the host of the agent's URL.
+ */
+
+import { PowerPlatformCloud } from "@microsoft/agents-copilotstudio-client";
+import { AgentCloud, AgentConfig } from "../types/agent";
+
+/**
+ * Sign-in and API endpoints of a Microsoft cloud
+ */
+interface CloudProfile {
+  label: string;
+  authorityHost: string;
+  powerPlatformCloud: PowerPlatformCloud;
+  apiHost: string;
+}
+
+export const cloudProfiles: Record<AgentCloud, CloudProfile> = {
+  public: {
+    label: "Commercial",
+    authorityHost: "https://login.microsoftonline.com",
+    powerPlatformCloud: PowerPlatformCloud.Prod,
+    apiHost: "api.powerplatform.com",
+  },
+  gcc: {
+    label: "US Government (GCC)",
+    authorityHost: "https://login.microsoftonline.com",
+    powerPlatformCloud: PowerPlatformCloud.Gov,
+    apiHost: "api.gov.powerplatform.microsoft.us",
+  },
+  gccHigh: {
+    label: "US Government (GCC High)",
+    authorityHost: "https://login.microsoftonline.us",
+    powerPlatformCloud: PowerPlatformCloud.High,
+    apiHost: "api.high.powerplatform.microsoft.us",
+  },
+  dod: {
+    label: "US Government (DoD)",
+    authorityHost: "https://login.microsoftonline.us",
+    powerPlatformCloud: PowerPlatformCloud.DoD,
+    apiHost: "api.appsplatform.us",
+  },
+  china: {
+    label: "China (operated by 21Vianet)",
+    authorityHost: "https://login.chinacloudapi.cn",
+    powerPlatformCloud: PowerPlatformCloud.Mooncake,
+    apiHost: "api.powerplatform.partner.microsoftonline.cn",
+  },
+};
+
+/**
+ * Finds the cloud whose Power Platform API serves the given host
+ * @param hostname - Host name of a Power Platform API URL
+ * @returns AgentCloud | null - Matching cloud, or null for unknown hosts
+ */
+export function findCloudByHost(hostname: string): AgentCloud | null {
+  const host = hostname.toLowerCase();
+  const clouds = Object.keys(cloudProfiles) as AgentCloud[];
+  // Several clouds share a login host but every cloud has its own API host
+  return (
+    clouds.find((cloud) => {
+      const apiHost = cloudProfiles[cloud].apiHost;
+      return host === apiHost || host.endsWith(`.${apiHost}`);
+    }) || null
+  );
+}
+
+/**
+ * Gets the cloud the configured agent lives in
+ * @param config - Agent configuration
+ * @returns AgentCloud - Cloud of the direct-connect URL, the selected cloud, or commercial
+ */
+export function getEffectiveCloud(config: AgentConfig): AgentCloud {
+  if (config.connectionMode === "directConnect" && config.directConnectUrl) {
+    try {
+      const detected = findCloudByHost(
+        new URL(config.directConnectUrl).hostname
+      );
+      if (detected) return detected;
+    } catch {
+      // Invalid URLs are reported by validation; fall back to the selected cloud
+    }
+  }
+  return config.cloud || "public";
+}
+
+/**
+ * Gets the Power Platform token scope of a cloud
+ * @param cloud - Cloud to get the scope for
+ * @returns string - Default scope of the cloud's Power Platform API
+ */
+export function getDefaultScope(cloud: AgentCloud): string {
+  return `https://${cloudProfiles[cloud].apiHost}/.default`;
+}
+
+/**
+ * Gets the endpoints of the cloud the configured agent lives in
+ * @param config - Agent configuration
+ * @returns CloudProfile - Effective cloud profile
+ */
+function getCloudProfile(config: AgentConfig): CloudProfile {
+  return cloudProfiles[getEffectiveCloud(config)];
+}
+
+/**
+ * Gets the sign-in authority for the configuration
+ * @param config - Agent configuration
+ * @returns string - Custom authority, or the cloud's login host with the tenant appended
+ */
+export function getAuthority(config: AgentConfig): string {
+  if (config.authority?.trim()) {
+    return config.authority.trim().replace(/\/+$/, "");
+  }
+  return `${getCloudProfile(config).authorityHost}/${config.tenantId.trim()}`;
+}
+
+/**
+ * Gets the token scopes requested for the agent
+ * @param config - Agent configuration
+ * @returns string[] - Custom scopes, or the Power Platform scope of the selected cloud
+ */
+export function getScopes(config: AgentConfig): string[] {
+  const customScopes = (config.scopes || [])
+    .map((scope) => scope.trim())
+    .filter(Boolean);
+  return customScopes.length > 0
+    ? customScopes
+    : [getDefaultScope(getEffectiveCloud(config))];
+}
+
+/**
+ * Gets the Copilot Studio cloud for the configuration
+ * @param config - Agent configuration
+ * @returns PowerPlatformCloud - Cloud passed to the Copilot Studio connection settings
+ */
+export function getPowerPlatformCloud(config: AgentConfig): PowerPlatformCloud {
+  return getCloudProfile(config).powerPlatformCloud;
+}
+
+/**
+ * Checks whether a value can be used as the tenant part of an authority
+ * @param value - Tenant GUID, multi-tenant alias such as "organizations", or verified domain
+ * @returns boolean - True if the value is a GUID, a known alias or a domain name
+ */
+export function isValidTenant(value: string): boolean {
+  const tenant = value.trim();
+  return (
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+      tenant
+    ) ||
+    ["organizations", "common"].indexOf(tenant.toLowerCase()) !== -1 ||
+    /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/i.test(
+      tenant
+    )
+  );
+}
+
+/**
+ * Checks whether a custom authority is an absolute HTTPS URL
+ * @param value - Authority URL
+ * @returns boolean - True if the authority can be passed to MSAL
+ */
+export function isValidAuthority(value: string): boolean {
+  try {
+    return new URL(value.trim()).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,124 @@
+import { ContentPolicy } from "../types/agent";
+import {
+  applyCardImagePolicy,
+  countMarkdownImages,
+  defaultContentPolicy,
+  getLinkTarget,
+  isAllowedUrl,
+  isBlockedImage,
+  isNavigableUrl,
+  loadContentPolicy,
+  parseDomainList,
+  saveContentPolicy,
+} from "./contentPolicy";
+
+const policy: ContentPolicy = {
+  allowedDomains: ["contoso.com"],
+  remoteImages: "placeholder",
+};
+
+describe("parseDomainList", () => {
+  it("reads host names from lines, commas, URLs and wildcards", () => {
+    expect(
+      parseDomainList(
+        "Contoso.com, https://docs.fabrikam.com/path\n*.example.org\ncontoso.com"
+      )
+    ).toEqual(["contoso.com", "docs.fabrikam.com", "example.org"]);
+  });
+});
+
+describe("links", () => {
+  it("allows the listed domains and their subdomains only", () => {
+    expect(isAllowedUrl("https://contoso.com/a", policy)).toBe(true);
+    expect(isAllowedUrl("https://learn.contoso.com", policy)).toBe(true);
+    expect(isAllowedUrl("https://notcontoso.com", policy)).toBe(false);
+    expect(isAllowedUrl("https://contoso.com.evil.example", policy)).toBe(
+      false
+    );
+    expect(isAllowedUrl("mailto:someone@contoso.com", policy)).toBe(false);
+  });
+
+  it("follows web, mail and phone links only", () => {
+    expect(isNavigableUrl("https://fabrikam.com")).toBe(true);
+    expect(isNavigableUrl("mailto:someone@contoso.com")).toBe(true);
+    expect(isNavigableUrl("javascript:alert(1)")).toBe(false);
+    expect(isNavigableUrl("data:text/html,hi")).toBe(false);
+  });
+
+  it("finds the target of the clicked link, also when it needs confirmation", () => {
+    const container = document.createElement("div");
+    container.innerHTML =
+      '<a href="https://contoso.com"><b>a</b></a><a data-href="https://fabrikam.com">b</a><a>c</a><p>d</p>';
+    const [allowed, confirmed, removed, text] = Array.from(container.children);
+    expect(getLinkTarget(allowed.firstElementChild!)).toBe(
+      "https://contoso.com"
+    );
+    expect(getLinkTarget(confirmed)).toBe("https://fabrikam.com");
+    expect(getLinkTarget(removed)).toBeNull();
+    expect(getLinkTarget(text)).toBeNull();
+  });
+});
+
+describe("images", () => {
+  it("blocks remote images outside the allowlist unless all are allowed", () => {
+    expect(isBlockedImage("https://tracker.example/a.png", policy)).toBe(true);
+    expect(isBlockedImage("https://cdn.contoso.com/a.png", policy)).toBe(false);
+    expect(isBlockedImage("/logo.png", policy)).toBe(false);
+    expect(isBlockedImage("data:image/png;base64,AAAA", policy)).toBe(false);
+    expect(
+      isBlockedImage("https://tracker.example/a.png", {
+        ...policy,
+        remoteImages: "allow",
+      })
+    ).toBe(false);
+  });
+
+  it("hides blocked card images, background images, icons and posters", () => {
+    const card = {
+      type: "AdaptiveCard",
+      backgroundImage: { url: "https://tracker.example/bg.png" },
+      body: [
+        { type: "Image", url: "https://tracker.example/a.png" },
+        { type: "Image", url: "https://cdn.contoso.com/b.png" },
+        {
+          type: "ImageSet",
+          images: [{ type: "Image", url: "https://tracker.example/c.png" }],
+        },
+        { type: "Media", poster: "https://tracker.example/poster.png" },
+        { type: "TextBlock", text: "https://tracker.example/d.png" },
+      ],
+      actions: [
+        { type: "Action.OpenUrl", iconUrl: "https://tracker.example/i.png" },
+      ],
+    };
+
+    const result = applyCardImagePolicy(card, policy);
+    expect(result.hiddenImages).toBe(5);
+    expect(result.card.body[0].url).toMatch(/^data:image\/svg\+xml,/);
+    expect(result.card.body[1].url).toBe("https://cdn.contoso.com/b.png");
+    expect(result.card.body[4].text).toBe("https://tracker.example/d.png");
+    expect(card.body[0].url).toBe("https://tracker.example/a.png");
+  });
+
+  it("counts blocked markdown images", () => {
+    expect(
+      countMarkdownImages(
+        "![a](https://tracker.example/a.png) ![b](<https://contoso.com/b.png>) [c](https://tracker.example)",
+        policy
+      )
+    ).toBe(1);
+  });
+});
+
+describe("storage", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it("saves the policy and falls back to the default", () => {
+    expect(loadContentPolicy()).toEqual(defaultContentPolicy);
+
+    saveContentPolicy(policy);
+    expect(loadContentPolicy()).toEqual(policy);
+  });
+});
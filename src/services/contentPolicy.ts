@@ -0,0 +1,230 @@
+/**
+ * Content Policy Service
+ *
+ * Decides which links in agent output open directly and which remote images load.
+ * Links to domains on the allowlist open in a new tab; other links need the user's
+ * confirmation first. Remote images outside the allowlist are loaded, hidden until
+ * the user loads them, or never loaded, depending on the policy. The policy applies
+ * to markdown, HTML and Adaptive Card content alike and is kept in localStorage.
+ */
+
+import { ContentPolicy } from "../types/agent";
+
+const CONTENT_POLICY_STORAGE_KEY = "agentSdk.contentPolicy";
+
+export const defaultContentPolicy: ContentPolicy = {
+  allowedDomains: ["microsoft.com", "office.com", "sharepoint.com"],
+  remoteImages: "placeholder",
+};
+
+// Schemes a link may navigate to; anything else, such as javascript:, is refused
+const navigableProtocols = ["http:", "https:", "mailto:", "tel:"];
+
+// Shown in cards instead of a hidden remote image
+const placeholderImage = `data:image/svg+xml,${encodeURIComponent(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="160" height="90"><rect width="160" height="90" fill="#e9ecef"/><text x="80" y="50" font-family="sans-serif" font-size="12" fill="#6c757d" text-anchor="middle">Image hidden</text></svg>'
+)}`;
+
+/**
+ * Reads the content policy chosen by the user
+ * @returns ContentPolicy - Saved policy, or the default policy
+ */
+export function loadContentPolicy(): ContentPolicy {
+  try {
+    const stored = localStorage.getItem(CONTENT_POLICY_STORAGE_KEY);
+    return stored
+      ? { ...defaultContentPolicy, ...JSON.parse(stored) }
+      : defaultContentPolicy;
+  } catch (error) {
+    console.error("Failed to read content policy:", error);
+    return defaultContentPolicy;
+  }
+}
+
+/**
+ * Saves the content policy chosen by the user
+ * @param policy - Policy to apply to agent output
+ */
+export function saveContentPolicy(policy: ContentPolicy): void {
+  try {
+    localStorage.setItem(CONTENT_POLICY_STORAGE_KEY, JSON.stringify(policy));
+  } catch (error) {
+    console.error("Failed to save content policy:", error);
+  }
+}
+
+/**
+ * Parses a list of domains entered one per line or separated by commas
+ * @param text - Domains, optionally with a scheme, path or leading "*."
+ * @returns string[] - Lower-case host names without duplicates
+ */
+export function parseDomainList(text: string): string[] {
+  const domains: string[] = [];
+  text.split(/[\s,]+/).forEach((entry) => {
+    const domain = entry
+      .trim()
+      .toLowerCase()
+      .replace(/^[a-z]+:\/\//, "")
+      .replace(/^\*\./, "")
+      .replace(/[/:?#].*$/, "");
+    if (domain && domains.indexOf(domain) === -1) {
+      domains.push(domain);
+    }
+  });
+  return domains;
+}
+
+/**
+ * Parses a URL relative to the current page
+ * @param url - Absolute or relative URL
+ * @returns URL | null - Parsed URL, or null if it is invalid
+ */
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url, window.location.href);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets the domain a web link points to
+ * @param url - Link target
+ * @returns string | null - Lower-case host name, or null for non-web links
+ */
+export function getLinkHost(url: string): string | null {
+  const parsed = parseUrl(url);
+  return parsed && (parsed.protocol === "http:" || parsed.protocol === "https:")
+    ? parsed.hostname.toLowerCase()
+    : null;
+}
+
+/**
+ * Checks whether a URL points to a domain on the allowlist
+ * @param url - URL to check
+ * @param policy - Content policy
+ * @returns boolean - True for http(s) URLs on an allowed domain or one of its subdomains
+ */
+export function isAllowedUrl(url: string, policy: ContentPolicy): boolean {
+  const host = getLinkHost(url);
+  return (
+    !!host &&
+    policy.allowedDomains.some(
+      (domain) => host === domain || host.endsWith(`.${domain}`)
+    )
+  );
+}
+
+/**
+ * Checks whether a link may be followed at all
+ * @param url - Link target
+ * @returns boolean - True for web, mail and phone links
+ */
+export function isNavigableUrl(url: string): boolean {
+  const parsed = parseUrl(url);
+  return !!parsed && navigableProtocols.indexOf(parsed.protocol) !== -1;
+}
+
+/**
+ * Opens a link in a new tab without giving the target page access to this one
+ * @param url - Link target
+ */
+export function openInNewTab(url: string): void {
+  window.open(url, "_blank", "noopener,noreferrer");
+}
+
+/**
+ * Finds the target of a link in rendered agent content
+ *
+ * Links that need confirmation carry their target in `data-href` instead of `href`.
+ * @param element - Element an event came from
+ * @returns string | null - Link target, empty if the sanitizer removed it, or null outside links
+ */
+export function getLinkTarget(element: Element): string | null {
+  const link = element.closest("a[href], [data-href]");
+  if (!link) return null;
+  return link.getAttribute("data-href") ?? link.getAttribute("href") ?? "";
+}
+
+/**
+ * Checks whether an image must not load until the user allows it
+ * @param url - Image source
+ * @param policy - Content policy
+ * @returns boolean - True for remote images outside the allowlist, unless all images are allowed
+ */
+export function isBlockedImage(url: string, policy: ContentPolicy): boolean {
+  if (policy.remoteImages === "allow") return false;
+
+  const parsed = parseUrl(url);
+  if (
+    !parsed ||
+    (parsed.protocol !== "http:" && parsed.protocol !== "https:")
+  ) {
+    return false;
+  }
+  return parsed.origin !== window.location.origin && !isAllowedUrl(url, policy);
+}
+
+/**
+ * Replaces the blocked images of an Adaptive Card with a placeholder
+ *
+ * Covers `Image` elements (including those of an `ImageSet`), background images,
+ * action icons and media posters.
+ * @param card - Card content
+ * @param policy - Content policy
+ * @returns Object with the card to render and the number of hidden images
+ */
+export function applyCardImagePolicy(
+  card: any,
+  policy: ContentPolicy
+): { card: any; hiddenImages: number } {
+  let hiddenImages = 0;
+
+  const replaceUrl = (url: any): any => {
+    if (typeof url !== "string" || !isBlockedImage(url, policy)) return url;
+    hiddenImages += 1;
+    return placeholderImage;
+  };
+
+  const walk = (node: any, isBackgroundImage: boolean = false): any => {
+    if (Array.isArray(node)) return node.map((item) => walk(item));
+    if (!node || typeof node !== "object") return node;
+
+    const result: any = {};
+    Object.keys(node).forEach((key) => {
+      const value = node[key];
+      if (key === "url" && (node.type === "Image" || isBackgroundImage)) {
+        result[key] = replaceUrl(value);
+      } else if (key === "backgroundImage") {
+        result[key] =
+          typeof value === "string" ? replaceUrl(value) : walk(value, true);
+      } else if (key === "iconUrl" || key === "poster") {
+        result[key] = replaceUrl(value);
+      } else {
+        result[key] = walk(value);
+      }
+    });
+    return result;
+  };
+
+  return { card: walk(card), hiddenImages };
+}
+
+/**
+ * Counts the blocked images of a markdown text
+ * @param markdown - Markdown text
+ * @param policy - Content policy
+ * @returns number - Number of images the policy hides
+ */
+export function countMarkdownImages(
+  markdown: string,
+  policy: ContentPolicy
+): number {
+  const imagePattern = /!\[[^\]]*\]\(\s*<?([^\s)>]+)/g;
+  let count = 0;
+  let match: RegExpExecArray | null;
+  while ((match = imagePattern.exec(markdown)) !== null) {
+    if (isBlockedImage(match[1], policy)) count += 1;
+  }
+  return count;
+}
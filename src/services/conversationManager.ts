@@ -0,0 +1,506 @@
+/**
+ * Conversation Manager
+ *
+ * Holds several independent conversations against the same agent. Each conversation
+ * has its own agent conversation ID (kept by AgentClient under the conversation's ID),
+ * its own history and its own in-flight turn, so a fresh conversation can be compared
+ * with a long-running one without losing either. Cards updated by Universal Actions
+ * are replaced in place in the conversation's response and history.
+ */
+
+import {
+  AgentResponse,
+  AgentStreamHandlers,
+  CardExecuteAction,
+  CardInvokeResult,
+  Conversation,
+  ConversationTurn,
+  OutgoingActivity,
+} from "../types/agent";
+import { AgentClient } from "./agentService";
+import { describeActivity, isPlainMessage } from "./outgoingActivity";
+import { createExecuteActivity, findInvokeResult } from "./universalActions";
+
+/**
+ * Snapshot of all conversations and the one currently shown
+ */
+export interface ConversationManagerState {
+  conversations: Conversation[];
+  activeConversationId: string;
+}
+
+/**
+ * Manages the open conversations and their pending turns
+ */
+export class ConversationManager {
+  private conversations: Conversation[] = [];
+  private activeConversationId: string;
+  private abortControllers = new Map<string, AbortController>();
+  private listeners: Array<(state: ConversationManagerState) => void> = [];
+  private conversationCounter = 0;
+
+  /**
+   * Creates new ConversationManager instance with one empty conversation
+   */
+  constructor() {
+    const conversation = this.buildConversation();
+    this.conversations = [conversation];
+    this.activeConversationId = conversation.id;
+  }
+
+  /**
+   * Gets the current conversations and the active conversation ID
+   * @returns ConversationManagerState - Immutable snapshot of the manager state
+   */
+  getState(): ConversationManagerState {
+    return {
+      conversations: this.conversations,
+      activeConversationId: this.activeConversationId,
+    };
+  }
+
+  /**
+   * Gets the conversation currently shown
+   * @returns Conversation - Active conversation
+   */
+  getActiveConversation(): Conversation {
+    return (
+      this.conversations.find(
+        (conversation) => conversation.id === this.activeConversationId
+      ) || this.conversations[0]
+    );
+  }
+
+  /**
+   * Subscribes to changes of the conversations
+   * @param listener - Listener called immediately and after every change
+   * @returns Function that unsubscribes the listener
+   */
+  subscribe(listener: (state: ConversationManagerState) => void): () => void {
+    this.listeners.push(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners = this.listeners.filter(
+        (existing) => existing !== listener
+      );
+    };
+  }
+
+  /**
+   * Opens a new empty conversation and makes it active
+   * @param title - Optional tab title
+   * @param locale - Optional locale sent with every activity of the conversation
+   * @returns Conversation - The new conversation
+   */
+  createConversation(title?: string, locale?: string): Conversation {
+    const conversation = this.buildConversation(title, locale);
+    this.conversations = [...this.conversations, conversation];
+    this.activeConversationId = conversation.id;
+    this.notify();
+    return conversation;
+  }
+
+  /**
+   * Renames a conversation
+   * @param id - Conversation to rename
+   * @param title - New title; blank titles are ignored
+   */
+  renameConversation(id: string, title: string): void {
+    if (!title.trim()) return;
+    this.updateConversation(id, { title: title.trim() });
+  }
+
+  /**
+   * Shows a different conversation
+   * @param id - Conversation to activate
+   */
+  switchConversation(id: string): void {
+    if (!this.findConversation(id) || id === this.activeConversationId) return;
+    this.activeConversationId = id;
+    this.notify();
+  }
+
+  /**
+   * Closes a conversation, stopping its pending turn
+   *
+   * Closing the last conversation replaces it with a new empty one.
+   * @param id - Conversation to close
+   * @param agentClient - Client whose agent conversation should be forgotten
+   */
+  closeConversation(id: string, agentClient?: AgentClient | null): void {
+    const index = this.conversations.findIndex(
+      (conversation) => conversation.id === id
+    );
+    if (index === -1) return;
+
+    this.stop(id);
+    agentClient?.resetConversationContext(id);
+
+    const remaining = this.conversations.filter(
+      (conversation) => conversation.id !== id
+    );
+    if (remaining.length === 0) {
+      remaining.push(this.buildConversation());
+    }
+    this.conversations = remaining;
+
+    if (this.activeConversationId === id) {
+      this.activeConversationId =
+        remaining[Math.min(index, remaining.length - 1)].id;
+    }
+    this.notify();
+  }
+
+  /**
+   * Opens saved conversations as tabs, or switches to one that is already open
+   *
+   * An untouched empty conversation is replaced by the opened conversations.
+   * @param conversations - Conversations to open, e.g. restored from storage
+   * @param activeId - Conversation to activate, defaults to the last opened one
+   */
+  openConversations(conversations: Conversation[], activeId?: string): void {
+    if (conversations.length === 0) return;
+
+    const added = conversations
+      .filter((conversation) => !this.findConversation(conversation.id))
+      .map((conversation) => ({
+        ...conversation,
+        response: null,
+        isPending: false,
+      }));
+    // Keep default titles of new conversations from repeating restored ones
+    this.conversationCounter += added.length;
+
+    const kept = this.conversations.filter(
+      (conversation) => !this.isUntouched(conversation) || added.length === 0
+    );
+    this.conversations = [...kept, ...added];
+    this.activeConversationId =
+      activeId || conversations[conversations.length - 1].id;
+    this.notify();
+  }
+
+  /**
+   * Replaces the history of a conversation, e.g. after a sign-in redirect
+   * @param id - Conversation to restore into
+   * @param history - Restored turns
+   */
+  restoreHistory(id: string, history: Conversation["history"]): void {
+    this.updateConversation(id, { history });
+  }
+
+  /**
+   * Stops the pending turns of all conversations
+   */
+  stopAll(): void {
+    this.abortControllers.forEach((controller) => controller.abort());
+  }
+
+  /**
+   * Stops all pending turns and starts over with one empty conversation
+   */
+  reset(): void {
+    this.stopAll();
+    this.abortControllers.clear();
+
+    const conversation = this.buildConversation();
+    this.conversations = [conversation];
+    this.activeConversationId = conversation.id;
+    this.notify();
+  }
+
+  /**
+   * Sends an activity in a conversation and records the turn in its history
+   * @param agentClient - Client used to reach the agent
+   * @param id - Conversation the activity belongs to
+   * @param activity - Message, event, or invoke activity to send
+   * @param continueConversation - Whether to continue the conversation's agent context
+   * @returns Promise<AgentResponse> - Final response of the turn
+   * @throws Error if the conversation already has a pending turn
+   */
+  async sendActivity(
+    agentClient: AgentClient,
+    id: string,
+    activity: OutgoingActivity,
+    continueConversation: boolean
+  ): Promise<AgentResponse> {
+    if (this.abortControllers.has(id)) {
+      throw new Error("This conversation is still waiting for the agent");
+    }
+
+    const localizedActivity = this.localize(id, activity);
+    return this.runTurn(
+      id,
+      describeActivity(localizedActivity),
+      {
+        activity: isPlainMessage(localizedActivity)
+          ? undefined
+          : localizedActivity,
+      },
+      (handlers, signal) =>
+        agentClient.sendActivity(
+          localizedActivity,
+          continueConversation,
+          handlers,
+          signal,
+          id
+        )
+    );
+  }
+
+  /**
+   * Starts a new agent conversation and records the start activities as a turn
+   *
+   * The agent context of the conversation is replaced, so later messages continue
+   * the new agent conversation.
+   * @param agentClient - Client used to reach the agent
+   * @param id - Conversation to start
+   * @param emitStartEvent - Whether the agent should receive a start event
+   * @returns Promise<AgentResponse> - Greeting activities sent by the agent
+   * @throws Error if the conversation already has a pending turn
+   */
+  async startConversation(
+    agentClient: AgentClient,
+    id: string,
+    emitStartEvent: boolean
+  ): Promise<AgentResponse> {
+    if (this.abortControllers.has(id)) {
+      throw new Error("This conversation is still waiting for the agent");
+    }
+
+    return this.runTurn(
+      id,
+      "",
+      { conversationStart: { emitStartEvent } },
+      (handlers, signal) =>
+        agentClient.startConversation(emitStartEvent, handlers, signal, id)
+    );
+  }
+
+  /**
+   * Stops the pending turn of a conversation, if any
+   * @param id - Conversation whose turn should be stopped
+   */
+  stop(id: string): void {
+    this.abortControllers.get(id)?.abort();
+  }
+
+  /**
+   * Runs an Adaptive Card `Action.Execute` and replaces the card with the one returned
+   *
+   * The `adaptiveCard/action` invoke is recorded in the history, while the shown
+   * response keeps its place and only the card the action ran on is updated, both
+   * in the response and in the history turn it came from.
+   * @param agentClient - Client used to reach the agent
+   * @param id - Conversation the card belongs to
+   * @param card - Content of the card the action ran on
+   * @param action - Action with its verb and data
+   * @param trigger - "manual" for a clicked button, "automatic" for a refresh
+   * @returns Promise<CardInvokeResult> - Card or message returned by the agent
+   * @throws Error if the conversation has a pending turn, or the invoke fails or is rejected
+   */
+  async executeCardAction(
+    agentClient: AgentClient,
+    id: string,
+    card: any,
+    action: CardExecuteAction,
+    trigger: "manual" | "automatic"
+  ): Promise<CardInvokeResult> {
+    if (this.abortControllers.has(id)) {
+      throw new Error("This conversation is still waiting for the agent");
+    }
+
+    const activity = this.localize(id, createExecuteActivity(action, trigger));
+    const result = await this.runTurn(
+      id,
+      describeActivity(activity),
+      { activity },
+      (handlers, signal) =>
+        agentClient.sendActivity(activity, true, handlers, signal, id),
+      false
+    );
+
+    const outcome = findInvokeResult(result);
+    if (outcome.card) {
+      this.replaceCard(id, card, outcome.card);
+    }
+    return outcome;
+  }
+
+  /**
+   * Runs a turn of a conversation, streaming its response and recording it in the history
+   * @param id - Conversation the turn belongs to
+   * @param message - Message shown for the turn
+   * @param details - Activity or conversation start details stored with the turn
+   * @param send - Exchanges activities with the agent
+   * @param showResponse - Whether the turn's response replaces the one shown
+   * @returns Promise<AgentResponse> - Final response of the turn
+   */
+  private async runTurn(
+    id: string,
+    message: string,
+    details: Pick<ConversationTurn, "activity" | "conversationStart">,
+    send: (
+      handlers: AgentStreamHandlers,
+      signal: AbortSignal
+    ) => Promise<AgentResponse>,
+    showResponse: boolean = true
+  ): Promise<AgentResponse> {
+    const abortController = new AbortController();
+    this.abortControllers.set(id, abortController);
+    this.updateConversation(id, {
+      lastMessage: message,
+      isPending: true,
+      ...(showResponse ? { response: null } : {}),
+    });
+
+    try {
+      const result = await send(
+        showResponse
+          ? {
+              // Render each partial response as its activities stream in
+              onUpdate: (partialResponse) =>
+                this.updateConversation(id, { response: partialResponse }),
+            }
+          : {},
+        abortController.signal
+      );
+
+      const conversation = this.findConversation(id);
+      if (conversation) {
+        this.updateConversation(id, {
+          ...(showResponse ? { response: result } : {}),
+          history: [
+            ...conversation.history,
+            {
+              message,
+              ...details,
+              response: result,
+              timestamp: new Date().toISOString(),
+            },
+          ],
+        });
+      }
+      return result;
+    } finally {
+      this.abortControllers.delete(id);
+      this.updateConversation(id, { isPending: false });
+    }
+  }
+
+  /**
+   * Gives an activity without a locale of its own the conversation's locale
+   * @param id - Conversation the activity belongs to
+   * @param activity - Activity to send
+   * @returns OutgoingActivity - Activity with the locale to send it in
+   */
+  private localize(id: string, activity: OutgoingActivity): OutgoingActivity {
+    const conversationLocale = this.findConversation(id)?.locale;
+    return !activity.locale && conversationLocale
+      ? { ...activity, locale: conversationLocale }
+      : activity;
+  }
+
+  /**
+   * Replaces a card in the shown response and in the history of a conversation
+   * @param id - Conversation the card belongs to
+   * @param original - Content of the card to replace
+   * @param updated - Content of the replacement card
+   */
+  private replaceCard(id: string, original: any, updated: any): void {
+    const conversation = this.findConversation(id);
+    if (!conversation) return;
+
+    const originalJson = JSON.stringify(original);
+    const isOriginal = (card: any) =>
+      JSON.stringify(card.content) === originalJson;
+    const replaceIn = (response: AgentResponse): AgentResponse => {
+      const cards = response.metadata?.adaptiveCards || [];
+      if (!cards.some(isOriginal)) return response;
+      return {
+        ...response,
+        metadata: {
+          ...response.metadata,
+          adaptiveCards: cards.map((card) =>
+            isOriginal(card) ? { ...card, content: updated } : card
+          ),
+        },
+      };
+    };
+
+    this.updateConversation(id, {
+      response: conversation.response && replaceIn(conversation.response),
+      history: conversation.history.map((turn) => {
+        const response = replaceIn(turn.response);
+        return response === turn.response ? turn : { ...turn, response };
+      }),
+    });
+  }
+
+  /**
+   * Finds a conversation by ID
+   * @param id - Conversation ID
+   * @returns Conversation | undefined - Matching conversation
+   */
+  private findConversation(id: string): Conversation | undefined {
+    return this.conversations.find((conversation) => conversation.id === id);
+  }
+
+  /**
+   * Checks whether a conversation was never used
+   * @param conversation - Conversation to check
+   * @returns boolean - True if nothing was sent in the conversation
+   */
+  private isUntouched(conversation: Conversation): boolean {
+    return (
+      conversation.history.length === 0 &&
+      !conversation.isPending &&
+      !conversation.lastMessage
+    );
+  }
+
+  /**
+   * Applies changes to a conversation and notifies listeners
+   * @param id - Conversation to update; closed conversations are ignored
+   * @param changes - Fields to change
+   */
+  private updateConversation(
+    id: string,
+    changes: Partial<Omit<Conversation, "id">>
+  ): void {
+    if (!this.findConversation(id)) return;
+
+    this.conversations = this.conversations.map((conversation) =>
+      conversation.id === id ? { ...conversation, ...changes } : conversation
+    );
+    this.notify();
+  }
+
+  /**
+   * Creates an empty conversation with a numbered default title
+   * @param title - Optional tab title
+   * @param locale - Optional locale of the conversation
+   * @returns Conversation - New conversation, not yet added
+   */
+  private buildConversation(title?: string, locale?: string): Conversation {
+    this.conversationCounter += 1;
+    return {
+      id: `conversation-${Date.now()}-${this.conversationCounter}`,
+      title: title || `Conversation ${this.conversationCounter}`,
+      history: [],
+      response: null,
+      lastMessage: "",
+      isPending: false,
+      createdAt: new Date().toISOString(),
+      locale: locale || undefined,
+    };
+  }
+
+  /**
+   * Notifies listeners with the current state
+   */
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
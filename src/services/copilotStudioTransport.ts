@@ -0,0 +1,151 @@
+/**
+ * Copilot Studio Transport
+ *
+ * AgentTransport implementation backed by the Microsoft 365 Agents SDK
+ * Copilot Studio client. Requires a Power Platform access token for the
+ * configured cloud.
+ */
+
+import { Activity } from "@microsoft/agents-activity";
+import { ConnectionSettings } from "@microsoft/agents-copilotstudio-client";
+import { AgentConfig } from "../types/agent";
+import { AgentTransport, StartedConversation } from "./agentTransport";
+import { getPowerPlatformCloud } from "./cloudSettings";
+import { parseDirectConnectUrl } from "./directConnectUrl";
+import {
+  ActivityListener,
+  StreamingCopilotClient,
+} from "./streamingCopilotClient";
+
+/**
+ * Transport that talks to a published Copilot Studio agent
+ */
+export class CopilotStudioTransport implements AgentTransport {
+  readonly name = "Copilot Studio";
+  readonly requiresAuthentication = true;
+  private config: AgentConfig;
+  private copilotClient: StreamingCopilotClient | null = null;
+  private connectedToken: string | null = null;
+
+  /**
+   * Creates new CopilotStudioTransport instance
+   * @param config - Agent configuration with connection details
+   */
+  constructor(config: AgentConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Initializes Copilot Studio client with access token and connection settings
+   *
+   * The client is created once per token and only rebuilt when the token rotates.
+   * @param accessToken - Valid access token for Power Platform API
+   * @throws Error if client initialization fails
+   */
+  connect(accessToken: string | null): void {
+    if (this.copilotClient && accessToken === this.connectedToken) {
+      return;
+    }
+
+    try {
+      if (!accessToken) {
+        throw new Error("An access token is required");
+      }
+
+      const connectionSettings: ConnectionSettings = {
+        appClientId: this.config.clientId,
+        tenantId: this.config.tenantId,
+        environmentId: this.config.environmentId,
+        agentIdentifier: this.config.botIdentifier,
+        cloud: getPowerPlatformCloud(this.config),
+      };
+
+      // A direct-connect URL replaces the environment and agent identifiers
+      if (this.config.connectionMode === "directConnect") {
+        const directConnect = parseDirectConnectUrl(
+          this.config.directConnectUrl || ""
+        );
+        connectionSettings.directConnectUrl = directConnect.url;
+        connectionSettings.agentIdentifier = directConnect.agentIdentifier;
+      }
+
+      this.copilotClient = new StreamingCopilotClient(
+        connectionSettings,
+        accessToken
+      );
+      this.connectedToken = accessToken;
+    } catch (error: any) {
+      throw new Error(
+        `Failed to initialize Copilot Studio Client: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Releases the Copilot Studio client and its token
+   */
+  dispose(): void {
+    this.copilotClient = null;
+    this.connectedToken = null;
+  }
+
+  /**
+   * Starts a new Copilot Studio conversation and streams its start activities
+   * @param emitStartConversationEvent - Whether the agent should receive a start event
+   * @param signal - Optional signal that cancels the request
+   * @param onActivity - Optional listener called for each activity the agent sends on start
+   * @returns Promise<StartedConversation> - New conversation and its start activities
+   * @throws Error if client is not initialized, no conversation ID is returned or the signal fires
+   */
+  async startConversation(
+    emitStartConversationEvent: boolean,
+    signal?: AbortSignal,
+    onActivity?: ActivityListener
+  ): Promise<StartedConversation> {
+    const started = await this.getClient().startConversationStreaming(
+      emitStartConversationEvent,
+      onActivity,
+      signal
+    );
+
+    if (!started.conversationId) {
+      throw new Error("Failed to get conversation ID from agent");
+    }
+
+    return started;
+  }
+
+  /**
+   * Sends an activity to the agent and streams back its replies
+   * @param activity - Activity to send
+   * @param conversationId - Conversation the activity belongs to
+   * @param onActivity - Optional listener called for each received activity
+   * @param signal - Optional signal that cancels the turn
+   * @returns Promise<Activity[]> - All activities received during the turn
+   */
+  async sendActivity(
+    activity: Activity,
+    conversationId: string,
+    onActivity?: ActivityListener,
+    signal?: AbortSignal
+  ): Promise<Activity[]> {
+    return this.getClient().sendActivityStreaming(
+      activity,
+      conversationId,
+      onActivity,
+      signal
+    );
+  }
+
+  /**
+   * Returns the connected Copilot Studio client
+   * @returns StreamingCopilotClient - Client created by connect()
+   * @throws Error if connect() has not been called yet
+   */
+  private getClient(): StreamingCopilotClient {
+    if (!this.copilotClient) {
+      throw new Error("Copilot Studio Client not initialized");
+    }
+    return this.copilotClient;
+  }
+}
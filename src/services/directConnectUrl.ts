@@ -0,0 +1,88 @@
+/**
+ * Direct-Connect URL Parser
+ *
+ * Parses and validates the direct-connect URL that Copilot Studio shows in an
+ * agent's settings, so a single pasted URL can replace the environment ID and
+ * schema name pair when configuring the client.
+ */
+
+import { AgentCloud } from "../types/agent";
+import { findCloudByHost } from "./cloudSettings";
+
+/**
+ * Details extracted from a valid direct-connect URL
+ */
+export interface DirectConnectInfo {
+  url: string;
+  cloud: AgentCloud;
+  agentIdentifier: string;
+}
+
+const missingTenantSegment = "tenants/00000000-0000-0000-0000-000000000000";
+
+/**
+ * Parses a Copilot Studio direct-connect URL
+ * @param value - URL copied from the agent's settings page
+ * @returns DirectConnectInfo - Normalized URL, its cloud and the agent schema name
+ * @throws Error describing why the URL cannot be used
+ */
+export function parseDirectConnectUrl(value: string): DirectConnectInfo {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    throw new Error("Direct-connect URL is required");
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error("Direct-connect URL must be a valid URL");
+  }
+
+  if (url.protocol !== "https:") {
+    throw new Error("Direct-connect URL must use HTTPS");
+  }
+
+  const cloud = findCloudByHost(url.hostname);
+  if (!cloud) {
+    throw new Error(`${url.hostname} is not a Power Platform API host`);
+  }
+
+  const path = url.pathname.toLowerCase();
+  if (path.indexOf("/copilotstudio/") === -1) {
+    throw new Error("Direct-connect URL must point to a Copilot Studio agent");
+  }
+
+  if (path.indexOf(missingTenantSegment) !== -1) {
+    throw new Error(
+      "Direct-connect URL is missing the tenant ID; copy it again after publishing the agent"
+    );
+  }
+
+  const agentMatch = url.pathname.match(/\/bots\/([^/]+)/i);
+  if (!agentMatch) {
+    throw new Error("Direct-connect URL does not identify an agent");
+  }
+
+  return {
+    url: url.toString(),
+    cloud,
+    agentIdentifier: decodeURIComponent(agentMatch[1]),
+  };
+}
+
+/**
+ * Validates a direct-connect URL without throwing
+ * @param value - URL to validate
+ * @returns string | null - Error message or null if the URL is valid
+ */
+export function validateDirectConnectUrl(value: string): string | null {
+  try {
+    parseDirectConnectUrl(value);
+    return null;
+  } catch (error) {
+    return error instanceof Error
+      ? error.message
+      : "Invalid direct-connect URL";
+  }
+}
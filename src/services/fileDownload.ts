@@ -0,0 +1,26 @@
+/**
+ * File Download Service
+ *
+ * Saves text generated in the browser, such as transcripts and batch results, as a
+ * file in the user's downloads.
+ */
+
+/**
+ * Downloads text as a file
+ * @param contents - File contents
+ * @param fileName - Name the file is saved under
+ * @param type - MIME type of the file
+ */
+export function downloadFile(
+  contents: string,
+  fileName: string,
+  type: string
+): void {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download before the browser has read the file
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,371 @@
+/**
+ * Host Configs
+ *
+ * Adaptive Card host configs for the hosts our cards are shown in: Copilot Studio
+ * web chat, Teams in its light, dark and high contrast themes, and Outlook. A
+ * custom host config can be pasted as JSON. The chosen host config is kept in
+ * localStorage so cards keep looking the same after a reload.
+ */
+
+import { CardHostSettings, HostConfigThemeId } from "../types/agent";
+
+const CARD_HOST_STORAGE_KEY = "agentSdk.cardHost";
+
+/**
+ * Colors of a host's default container
+ */
+interface HostPalette {
+  background: string; // Default container background
+  emphasisBackground: string; // Background of containers with the emphasis style
+  text: string; // Default text
+  subtleText: string; // Subtle text
+  accent: string; // Accent text and buttons
+  good: string; // Good text
+  warning: string; // Warning text
+  attention: string; // Attention text
+}
+
+/**
+ * Creates the container styles of a host config from its palette
+ * @param palette - Colors of the host
+ * @returns Container styles for the default and emphasis styles
+ */
+function createContainerStyles(palette: HostPalette) {
+  const foregroundColors = {
+    default: { default: palette.text, subtle: palette.subtleText },
+    dark: { default: palette.text, subtle: palette.subtleText },
+    light: { default: palette.subtleText, subtle: palette.subtleText },
+    accent: { default: palette.accent, subtle: palette.accent },
+    good: { default: palette.good, subtle: palette.good },
+    warning: { default: palette.warning, subtle: palette.warning },
+    attention: { default: palette.attention, subtle: palette.attention },
+  };
+
+  return {
+    default: { backgroundColor: palette.background, foregroundColors },
+    emphasis: { backgroundColor: palette.emphasisBackground, foregroundColors },
+  };
+}
+
+export const copilotStudioHostConfig = {
+  spacing: {
+    small: 4,
+    default: 8,
+    medium: 12,
+    large: 16,
+    extraLarge: 20,
+    padding: 12,
+  },
+  separator: {
+    lineThickness: 1,
+    lineColor: "#E1E1E1",
+  },
+  fontFamily:
+    "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+  fontSizes: {
+    small: 12,
+    default: 14,
+    medium: 16,
+    large: 18,
+    extraLarge: 20,
+  },
+  fontWeights: {
+    lighter: 300,
+    default: 400,
+    bolder: 600,
+  },
+  containerStyles: {
+    default: {
+      backgroundColor: "#FFFFFF",
+      foregroundColors: {
+        default: {
+          default: "#323130",
+          subtle: "#605E5C",
+        },
+        accent: {
+          default: "#0078D4",
+          subtle: "#106EBE",
+        },
+      },
+    },
+  },
+  factSet: {
+    title: {
+      color: "default",
+      size: "default",
+      weight: "bolder",
+    },
+    value: {
+      color: "default",
+      size: "default",
+      weight: "default",
+    },
+  },
+  actions: {
+    maxActions: 5,
+    spacing: "default",
+    buttonSpacing: 8,
+    showCard: {
+      actionMode: "inline",
+      inlineTopMargin: 8,
+    },
+    actionsOrientation: "horizontal",
+    actionAlignment: "left",
+  },
+};
+
+// Layout shared by the Teams themes, which differ only in their colors
+const teamsLayout = {
+  supportsInteractivity: true,
+  fontFamily: "'Segoe UI', system-ui, -apple-system, sans-serif",
+  spacing: {
+    small: 8,
+    default: 12,
+    medium: 16,
+    large: 20,
+    extraLarge: 24,
+    padding: 16,
+  },
+  fontSizes: {
+    small: 12,
+    default: 14,
+    medium: 14,
+    large: 18,
+    extraLarge: 24,
+  },
+  fontWeights: {
+    lighter: 200,
+    default: 400,
+    bolder: 600,
+  },
+  imageSizes: {
+    small: 32,
+    medium: 52,
+    large: 100,
+  },
+  actions: {
+    maxActions: 6,
+    spacing: "default",
+    buttonSpacing: 8,
+    showCard: {
+      actionMode: "inline",
+      inlineTopMargin: 16,
+    },
+    actionsOrientation: "horizontal",
+    actionAlignment: "stretch",
+  },
+  factSet: {
+    title: { color: "default", size: "default", weight: "bolder", wrap: true },
+    value: { color: "default", size: "default", weight: "default", wrap: true },
+    spacing: 16,
+  },
+};
+
+const teamsLightHostConfig = {
+  ...teamsLayout,
+  separator: { lineThickness: 1, lineColor: "#E0E0E0" },
+  containerStyles: createContainerStyles({
+    background: "#FFFFFF",
+    emphasisBackground: "#F5F5F5",
+    text: "#242424",
+    subtleText: "#616161",
+    accent: "#5B5FC7",
+    good: "#0E700E",
+    warning: "#835C00",
+    attention: "#C4314B",
+  }),
+};
+
+const teamsDarkHostConfig = {
+  ...teamsLayout,
+  separator: { lineThickness: 1, lineColor: "#3D3D3D" },
+  containerStyles: createContainerStyles({
+    background: "#292929",
+    emphasisBackground: "#1F1F1F",
+    text: "#FFFFFF",
+    subtleText: "#ADADAD",
+    accent: "#7F85F5",
+    good: "#54B054",
+    warning: "#F2C661",
+    attention: "#F9526B",
+  }),
+};
+
+const teamsHighContrastHostConfig = {
+  ...teamsLayout,
+  separator: { lineThickness: 2, lineColor: "#FFFFFF" },
+  containerStyles: createContainerStyles({
+    background: "#000000",
+    emphasisBackground: "#000000",
+    text: "#FFFFFF",
+    subtleText: "#FFFFFF",
+    accent: "#1AEBFF",
+    good: "#3FF23F",
+    warning: "#FFFF01",
+    attention: "#FF0000",
+  }),
+};
+
+const outlookHostConfig = {
+  supportsInteractivity: true,
+  fontFamily: "'Segoe UI', 'Segoe UI Web (West European)', sans-serif",
+  spacing: {
+    small: 4,
+    default: 12,
+    medium: 20,
+    large: 30,
+    extraLarge: 40,
+    padding: 20,
+  },
+  separator: { lineThickness: 1, lineColor: "#EDEBE9" },
+  fontSizes: {
+    small: 12,
+    default: 14,
+    medium: 17,
+    large: 21,
+    extraLarge: 26,
+  },
+  fontWeights: {
+    lighter: 200,
+    default: 400,
+    bolder: 600,
+  },
+  containerStyles: createContainerStyles({
+    background: "#FFFFFF",
+    emphasisBackground: "#F3F2F1",
+    text: "#323130",
+    subtleText: "#605E5C",
+    accent: "#0078D4",
+    good: "#107C10",
+    warning: "#797673",
+    attention: "#A4262C",
+  }),
+  actions: {
+    maxActions: 6,
+    spacing: "default",
+    buttonSpacing: 12,
+    showCard: {
+      actionMode: "inline",
+      inlineTopMargin: 12,
+    },
+    actionsOrientation: "horizontal",
+    actionAlignment: "left",
+  },
+  factSet: {
+    title: { color: "default", size: "default", weight: "bolder", wrap: true },
+    value: { color: "default", size: "default", weight: "default", wrap: true },
+    spacing: 12,
+  },
+};
+
+/**
+ * Host configs that can be chosen, in the order they are offered
+ */
+export const hostConfigThemes: Array<{
+  id: HostConfigThemeId;
+  name: string;
+  hostConfig: object;
+}> = [
+  {
+    id: "copilotStudio",
+    name: "Copilot Studio web chat",
+    hostConfig: copilotStudioHostConfig,
+  },
+  { id: "teamsLight", name: "Teams (light)", hostConfig: teamsLightHostConfig },
+  { id: "teamsDark", name: "Teams (dark)", hostConfig: teamsDarkHostConfig },
+  {
+    id: "teamsHighContrast",
+    name: "Teams (high contrast)",
+    hostConfig: teamsHighContrastHostConfig,
+  },
+  { id: "outlook", name: "Outlook", hostConfig: outlookHostConfig },
+];
+
+export const defaultCardHostSettings: CardHostSettings = {
+  themeId: "copilotStudio",
+  customHostConfig: JSON.stringify(teamsLightHostConfig, null, 2),
+};
+
+/**
+ * Reads the host config chosen by the user
+ * @returns CardHostSettings - Saved choice, or the default
+ */
+export function loadCardHostSettings(): CardHostSettings {
+  try {
+    const stored = localStorage.getItem(CARD_HOST_STORAGE_KEY);
+    return stored
+      ? { ...defaultCardHostSettings, ...JSON.parse(stored) }
+      : defaultCardHostSettings;
+  } catch (error) {
+    console.error("Failed to read card host settings:", error);
+    return defaultCardHostSettings;
+  }
+}
+
+/**
+ * Saves the host config chosen by the user
+ * @param settings - Chosen host config
+ */
+export function saveCardHostSettings(settings: CardHostSettings): void {
+  try {
+    localStorage.setItem(CARD_HOST_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save card host settings:", error);
+  }
+}
+
+/**
+ * Parses a custom host config
+ * @param json - Host config JSON
+ * @returns object - Parsed host config
+ * @throws Error if the JSON is invalid or not an object
+ */
+export function parseCustomHostConfig(json: string): object {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error: any) {
+    throw new Error(`Invalid host config JSON: ${error.message}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("A host config must be a JSON object");
+  }
+  return parsed;
+}
+
+/**
+ * Gets the host config to render cards with
+ *
+ * A custom host config that cannot be parsed falls back to Copilot Studio web chat.
+ * @param settings - Chosen host config
+ * @returns object - Host config JSON
+ */
+export function resolveHostConfig(settings: CardHostSettings): object {
+  if (settings.themeId === "custom") {
+    try {
+      return parseCustomHostConfig(settings.customHostConfig);
+    } catch (error) {
+      console.error("Failed to use the custom host config:", error);
+      return copilotStudioHostConfig;
+    }
+  }
+
+  const theme = hostConfigThemes.find((item) => item.id === settings.themeId);
+  return theme ? theme.hostConfig : copilotStudioHostConfig;
+}
+
+/**
+ * Gets the colors of the surface a host draws its cards on
+ * @param hostConfig - Host config JSON
+ * @returns Object with the card background and the accent color of buttons
+ */
+export function getHostColors(hostConfig: any): {
+  background: string;
+  accent: string;
+} {
+  const defaultStyle = hostConfig?.containerStyles?.default;
+  return {
+    background: defaultStyle?.backgroundColor || "#FFFFFF",
+    accent: defaultStyle?.foregroundColors?.accent?.default || "#0078D4",
+  };
+}
@@ -0,0 +1,166 @@
+import {
+  findUnsafeMarkdownUrls,
+  isSafeUrl,
+  sanitizeHtml,
+  sanitizeMarkdownUrl,
+} from "./htmlSanitizer";
+
+describe("isSafeUrl", () => {
+  it("allows web, mail and phone links and relative URLs", () => {
+    expect(isSafeUrl("https://contoso.com/a", "link")).toBe(true);
+    expect(isSafeUrl("mailto:someone@contoso.com", "link")).toBe(true);
+    expect(isSafeUrl("tel:+15550100", "link")).toBe(true);
+    expect(isSafeUrl("/docs#intro", "link")).toBe(true);
+  });
+
+  it("rejects script URLs, including obfuscated ones", () => {
+    expect(isSafeUrl("javascript:alert(1)", "link")).toBe(false);
+    expect(isSafeUrl("JAVASCRIPT:alert(1)", "link")).toBe(false);
+    expect(isSafeUrl(" java\nscript:alert(1)", "link")).toBe(false);
+    expect(isSafeUrl("java\u0000script:alert(1)", "link")).toBe(false);
+    expect(isSafeUrl("vbscript:msgbox(1)", "link")).toBe(false);
+  });
+
+  it("allows only raster data images", () => {
+    expect(isSafeUrl("data:image/png;base64,AAAA", "image")).toBe(true);
+    expect(isSafeUrl("data:image/svg+xml,<svg/>", "image")).toBe(false);
+    expect(isSafeUrl("data:text/html,<script>", "link")).toBe(false);
+  });
+});
+
+describe("sanitizeHtml", () => {
+  it("keeps allowed formatting and makes links open in a new tab", () => {
+    const result = sanitizeHtml(
+      '<p>Hello <strong>there</strong> <a href="https://contoso.com">link</a></p>'
+    );
+    expect(result.html).toBe(
+      '<p>Hello <strong>there</strong> <a href="https://contoso.com" target="_blank" rel="noopener noreferrer">link</a></p>'
+    );
+    expect(result.removed).toEqual([]);
+  });
+
+  it("removes javascript: URLs", () => {
+    const result = sanitizeHtml('<a href="javascript:alert(1)">x</a>');
+    expect(result.html).not.toContain("javascript");
+    expect(result.removed).toEqual(["javascript: URL"]);
+  });
+
+  it("removes entity-obfuscated schemes", () => {
+    const result = sanitizeHtml(
+      '<a href="&#106;avascript:alert(1)">a</a><a href="java&#x09;script:alert(1)">b</a><a href="&#x6A;&#x61;&#x76;&#x61;&#x73;&#x63;&#x72;&#x69;&#x70;&#x74;&#x3A;alert(1)">c</a>'
+    );
+    expect(result.html).not.toContain("href");
+    expect(result.removed).toEqual([
+      "javascript: URL",
+      "javascript: URL",
+      "javascript: URL",
+    ]);
+  });
+
+  it("removes event handler attributes", () => {
+    const result = sanitizeHtml(
+      '<p onclick="steal()">a</p><img src="https://contoso.com/a.png" onerror="steal()" onLoad="steal()">'
+    );
+    expect(result.html).toBe('<p>a</p><img src="https://contoso.com/a.png">');
+    expect(result.removed).toEqual([
+      "onclick handler",
+      "onerror handler",
+      "onload handler",
+    ]);
+  });
+
+  it("removes svg and math elements with their content", () => {
+    const result = sanitizeHtml(
+      '<svg><script>steal()</script><a href="javascript:steal()">x</a></svg><math><mtext><img src=x onerror=steal()></mtext></math>after'
+    );
+    expect(result.html).toBe("after");
+    expect(result.removed).toEqual(["<svg> element", "<math> element"]);
+  });
+
+  it("removes script, style and iframe elements", () => {
+    const result = sanitizeHtml(
+      "<script>steal()</script><style>body{}</style><iframe src='https://evil.example'></iframe>text"
+    );
+    expect(result.html).toBe("text");
+    expect(result.removed).toEqual([
+      "<script> element",
+      "<style> element",
+      "<iframe> element",
+    ]);
+  });
+
+  it("removes srcset so only the checked src loads", () => {
+    const result = sanitizeHtml(
+      '<img src="https://contoso.com/a.png" srcset="https://evil.example/track.png 2x">'
+    );
+    expect(result.html).toBe('<img src="https://contoso.com/a.png">');
+    expect(result.removed).toEqual(["srcset attribute"]);
+  });
+
+  it("removes style attributes and the URLs inside them", () => {
+    const result = sanitizeHtml(
+      '<p style="background:url(\'https://evil.example/track.png\')">a</p><div style="background-image:url(javascript:steal())">b</div>'
+    );
+    expect(result.html).toBe("<p>a</p><div>b</div>");
+    expect(result.removed).toEqual(["style attribute", "style attribute"]);
+  });
+
+  it("hides blocked images in the same pass", () => {
+    const result = sanitizeHtml(
+      '<p>a<img src="https://tracker.example/a.png" onerror="steal()"><img src="https://contoso.com/b.png"></p>',
+      { isBlockedImage: (src) => src.indexOf("tracker.example") !== -1 }
+    );
+    expect(result.html).toBe(
+      '<p>a<span class="hidden-image">🖼️ Image hidden (tracker.example)</span><img src="https://contoso.com/b.png"></p>'
+    );
+    expect(result.hiddenImages).toBe(1);
+    expect(result.removed).toEqual(["onerror handler"]);
+  });
+
+  it("keeps the target of links that need confirmation out of the href", () => {
+    const result = sanitizeHtml(
+      '<a href="https://fabrikam.com/a">a</a><a href="https://contoso.com/b">b</a>',
+      { needsConfirmation: (href) => href.indexOf("fabrikam.com") !== -1 }
+    );
+    expect(result.html).toBe(
+      '<a target="_blank" rel="noopener noreferrer" data-href="https://fabrikam.com/a" role="link" tabindex="0">a</a><a href="https://contoso.com/b" target="_blank" rel="noopener noreferrer">b</a>'
+    );
+  });
+
+  it("checks only image sources that survived sanitizing", () => {
+    const isBlockedImage = jest.fn(() => true);
+    const result = sanitizeHtml(
+      '<svg><img src="https://tracker.example/a.png"></svg><img src="javascript:steal()">',
+      { isBlockedImage }
+    );
+    expect(isBlockedImage).not.toHaveBeenCalled();
+    expect(result.html).toBe("<img>");
+    expect(result.hiddenImages).toBe(0);
+  });
+
+  it("unwraps unknown tags but keeps their text", () => {
+    const result = sanitizeHtml('<font color="red">red <b>bold</b></font>');
+    expect(result.html).toBe("red <b>bold</b>");
+    expect(result.removed).toEqual(["<font> tag"]);
+  });
+});
+
+describe("markdown URLs", () => {
+  it("finds unsafe link, image and reference URLs", () => {
+    expect(
+      findUnsafeMarkdownUrls(
+        "[a](javascript:alert(1)) ![b](data:image/svg+xml,x) [ok](https://contoso.com)\n[ref]: vbscript:x"
+      )
+    ).toEqual(["javascript: URL", "data: URL", "vbscript: URL"]);
+  });
+
+  it("blanks unsafe URLs in the markdown renderer", () => {
+    expect(sanitizeMarkdownUrl("javascript:alert(1)", "href")).toBe("");
+    expect(sanitizeMarkdownUrl("https://contoso.com", "href")).toBe(
+      "https://contoso.com"
+    );
+    expect(sanitizeMarkdownUrl("data:image/png;base64,AAAA", "src")).toBe(
+      "data:image/png;base64,AAAA"
+    );
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * HTML Sanitizer
+ *
+ * Cleans agent output before it is rendered in this page, where the signed-in
+ * user's tokens are kept. Only an explicit allowlist of formatting tags and
+ * attributes survives: scripts, frames, forms and styles are removed with their
+ * content, event handler attributes are dropped, and links and images may only
+ * use safe URL schemes. Every removal is reported so the UI can show that the
+ * content was changed. The same URL rules apply to markdown and card text. Images
+ * the content policy blocks are replaced in the same pass, so the sanitizer's
+ * output is exactly what gets rendered. Links that need the user's confirmation
+ * keep their target only in `data-href`, so the browser has nothing to follow on
+ * a middle-click or "open in new tab".
+ */
+
+/**
+ * Result of sanitizing agent content
+ */
+export interface SanitizeResult {
+  html: string; // Sanitized HTML
+  removed: string[]; // One description per removed tag, attribute or URL
+  hiddenImages: number; // Images replaced with a note because the policy blocks them
+}
+
+/**
+ * Policy decisions applied while sanitizing
+ */
+export interface SanitizeOptions {
+  isBlockedImage?: (src: string) => boolean; // Images replaced with a note instead of loading
+  needsConfirmation?: (href: string) => boolean; // Links whose target moves to data-href
+}
+
+// Formatting tags that are kept, with the attributes each of them may carry
+const allowedTags: Record<string, string[]> = {
+  a: ["href", "title"],
+  abbr: ["title"],
+  b: [],
+  blockquote: [],
+  br: [],
+  caption: [],
+  code: [],
+  dd: [],
+  del: [],
+  div: [],
+  dl: [],
+  dt: [],
+  em: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  hr: [],
+  i: [],
+  img: ["src", "alt", "title", "width", "height"],
+  ins: [],
+  li: [],
+  mark: [],
+  ol: ["start"],
+  p: [],
+  pre: [],
+  s: [],
+  small: [],
+  span: [],
+  strong: [],
+  sub: [],
+  sup: [],
+  table: [],
+  tbody: [],
+  td: ["colspan", "rowspan", "align"],
+  tfoot: [],
+  th: ["colspan", "rowspan", "align", "scope"],
+  thead: [],
+  tr: [],
+  u: [],
+  ul: [],
+};
+
+// Tags whose content is removed along with them rather than kept as text
+const droppedTags = [
+  "applet",
+  "base",
+  "button",
+  "embed",
+  "form",
+  "frame",
+  "frameset",
+  "iframe",
+  "input",
+  "link",
+  "math",
+  "meta",
+  "noscript",
+  "object",
+  "option",
+  "script",
+  "select",
+  "style",
+  "svg",
+  "template",
+  "textarea",
+  "title",
+];
+
+// Tag names markdown may produce; anything else is unwrapped to its content
+export const markdownAllowedElements = Object.keys(allowedTags).concat([
+  "input", // GFM task list checkboxes, rendered disabled by the markdown renderer
+]);
+
+// The markdown subset Adaptive Cards support in card text; Teams and Outlook
+// render no images, headings or tables there, and neither does the preview
+export const cardMarkdownElements = [
+  "p",
+  "strong",
+  "em",
+  "ul",
+  "ol",
+  "li",
+  "a",
+];
+
+const linkProtocols = ["http", "https", "mailto", "tel"];
+const imageDataPattern = /^data:image\/(png|gif|jpeg|webp);/i;
+
+/**
+ * Reads the scheme of a URL
+ *
+ * Control characters and whitespace are ignored, as browsers do, so that
+ * `java\nscript:` is recognised too.
+ * @param url - URL from the content
+ * @returns string | null - Lower-case scheme, or null for relative URLs
+ */
+function readScheme(url: string): string | null {
+  let compact = "";
+  for (let i = 0; i < url.length; i++) {
+    const code = url.charCodeAt(i);
+    if (code > 0x20 && code !== 0x7f) compact += url[i];
+  }
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(compact);
+  return scheme ? scheme[1].toLowerCase() : null;
+}
+
+/**
+ * Checks whether a URL may be used by a link or image
+ *
+ * URLs without a scheme are relative and always safe.
+ * @param url - URL from the content
+ * @param kind - "image" for image sources, "link" for everything else
+ * @returns boolean - True if the URL uses an allowed scheme
+ */
+export function isSafeUrl(url: string, kind: "link" | "image"): boolean {
+  const protocol = readScheme(url);
+  if (!protocol) return true;
+
+  if (kind === "image" && protocol === "data") {
+    return imageDataPattern.test(url.trim());
+  }
+  return kind === "image"
+    ? protocol === "http" || protocol === "https"
+    : linkProtocols.indexOf(protocol) !== -1;
+}
+
+/**
+ * Describes a URL that was removed
+ * @param url - Removed URL
+ * @returns string - Description such as "javascript: URL"
+ */
+function describeUrl(url: string): string {
+  const scheme = readScheme(url);
+  return `${scheme ? `${scheme}:` : "unsafe"} URL`;
+}
+
+/**
+ * Replaces a blocked image with a note naming where it would have loaded from
+ * @param image - Image element
+ * @param src - Image source
+ */
+function hideImage(image: Element, src: string): void {
+  let host = src;
+  try {
+    host = new URL(src).hostname;
+  } catch {
+    // Keep the source itself when it is not an absolute URL
+  }
+  const note = image.ownerDocument.createElement("span");
+  note.className = "hidden-image";
+  note.textContent = `🖼️ Image hidden (${host})`;
+  image.parentNode!.replaceChild(note, image);
+}
+
+/**
+ * Moves the target of a link that needs confirmation out of its href
+ *
+ * The link stays focusable so that it can still be opened from the keyboard.
+ * @param link - Link element
+ * @param href - Link target
+ */
+function withholdLink(link: Element, href: string): void {
+  link.removeAttribute("href");
+  link.setAttribute("data-href", href);
+  link.setAttribute("role", "link");
+  link.setAttribute("tabindex", "0");
+}
+
+/**
+ * Sanitizes an HTML fragment from an agent
+ * @param html - HTML fragment
+ * @param options - Optional policy decisions applied in the same pass
+ * @returns SanitizeResult - HTML with only allowed tags, attributes and URLs
+ */
+export function sanitizeHtml(
+  html: string,
+  options: SanitizeOptions = {}
+): SanitizeResult {
+  // Template content is inert: nothing in it runs or loads while it is cleaned
+  const template = document.createElement("template");
+  template.innerHTML = html;
+  const removed: string[] = [];
+  let hiddenImages = 0;
+
+  const cleanAttributes = (element: Element, tag: string) => {
+    Array.prototype.slice
+      .call(element.attributes)
+      .forEach((attribute: Attr) => {
+        const name = attribute.name.toLowerCase();
+        if (name.indexOf("on") === 0) {
+          removed.push(`${name} handler`);
+        } else if (allowedTags[tag].indexOf(name) === -1) {
+          removed.push(`${name} attribute`);
+        } else if (
+          (name === "href" || name === "src") &&
+          !isSafeUrl(attribute.value, name === "src" ? "image" : "link")
+        ) {
+          removed.push(describeUrl(attribute.value));
+        } else {
+          return;
+        }
+        element.removeAttribute(attribute.name);
+      });
+
+    // Links open in a new tab without access to this page
+    if (tag === "a") {
+      element.setAttribute("target", "_blank");
+      element.setAttribute("rel", "noopener noreferrer");
+      const href = element.getAttribute("href");
+      if (
+        href &&
+        options.needsConfirmation &&
+        options.needsConfirmation(href)
+      ) {
+        withholdLink(element, href);
+      }
+    }
+  };
+
+  const cleanChildren = (parent: Node) => {
+    Array.prototype.slice.call(parent.childNodes).forEach((node: Node) => {
+      if (node.nodeType === Node.TEXT_NODE) return;
+      if (node.nodeType !== Node.ELEMENT_NODE) {
+        parent.removeChild(node);
+        return;
+      }
+
+      const element = node as Element;
+      const tag = element.tagName.toLowerCase();
+      if (droppedTags.indexOf(tag) !== -1) {
+        removed.push(`<${tag}> element`);
+        parent.removeChild(element);
+      } else if (!Object.prototype.hasOwnProperty.call(allowedTags, tag)) {
+        removed.push(`<${tag}> tag`);
+        cleanChildren(element);
+        while (element.firstChild) {
+          parent.insertBefore(element.firstChild, element);
+        }
+        parent.removeChild(element);
+      } else {
+        cleanAttributes(element, tag);
+        const src = tag === "img" ? element.getAttribute("src") : null;
+        if (src && options.isBlockedImage && options.isBlockedImage(src)) {
+          hiddenImages += 1;
+          hideImage(element, src);
+          return;
+        }
+        cleanChildren(element);
+      }
+    });
+  };
+
+  cleanChildren(template.content);
+  return { html: template.innerHTML, removed, hiddenImages };
+}
+
+/**
+ * Finds the link and image URLs of a markdown text that the sanitizer removes
+ * @param markdown - Markdown text
+ * @returns string[] - One description per unsafe URL
+ */
+export function findUnsafeMarkdownUrls(markdown: string): string[] {
+  const removed: string[] = [];
+  const patterns = [
+    /(!?)\[[^\]]*\]\(\s*<?([^\s)>]+)/g, // Inline links and images
+    /^()\s{0,3}\[[^\]]+\]:\s*<?([^\s>]+)/gm, // Link reference definitions
+  ];
+
+  patterns.forEach((pattern) => {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(markdown)) !== null) {
+      if (!isSafeUrl(match[2], match[1] ? "image" : "link")) {
+        removed.push(describeUrl(match[2]));
+      }
+    }
+  });
+  return removed;
+}
+
+/**
+ * URL transform for the markdown renderer applying the sanitizer's URL rules
+ * @param url - Link or image URL
+ * @param key - Attribute the URL belongs to
+ * @returns string - The URL, or an empty string if it is unsafe
+ */
+export function sanitizeMarkdownUrl(url: string, key: string): string {
+  return isSafeUrl(url, key === "src" ? "image" : "link") ? url : "";
+}
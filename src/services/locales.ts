@@ -0,0 +1,35 @@
+/**
+ * Locale Options
+ *
+ * Locales offered for conversations and single messages. The locale is sent on
+ * every activity, so multilingual agents answer (and pick topics) in that language.
+ */
+
+/**
+ * Locale that can be chosen in the UI
+ */
+export interface LocaleOption {
+  value: string; // BCP 47 language tag sent to the agent
+  label: string; // Name shown in selectors
+}
+
+export const localeOptions: LocaleOption[] = [
+  { value: "en-US", label: "English (United States)" },
+  { value: "en-GB", label: "English (United Kingdom)" },
+  { value: "fr-FR", label: "French (France)" },
+  { value: "fr-CA", label: "French (Canada)" },
+  { value: "de-DE", label: "German (Germany)" },
+  { value: "es-ES", label: "Spanish (Spain)" },
+  { value: "es-MX", label: "Spanish (Mexico)" },
+  { value: "it-IT", label: "Italian (Italy)" },
+  { value: "pt-BR", label: "Portuguese (Brazil)" },
+  { value: "nl-NL", label: "Dutch (Netherlands)" },
+  { value: "sv-SE", label: "Swedish (Sweden)" },
+  { value: "pl-PL", label: "Polish (Poland)" },
+  { value: "ja-JP", label: "Japanese (Japan)" },
+  { value: "ko-KR", label: "Korean (Korea)" },
+  { value: "zh-CN", label: "Chinese (Simplified)" },
+  { value: "zh-TW", label: "Chinese (Traditional)" },
+  { value: "ar-SA", label: "Arabic (Saudi Arabia)" },
+  { value: "hi-IN", label: "Hindi (India)" },
+];
@@ -0,0 +1,117 @@
+/**
+ * Outgoing Activity Helpers
+ *
+ * Builds the activities the user sends from the activity composer and from
+ * Adaptive Card actions, and describes them for the conversation history. Plain
+ * text messages keep their text; events, invokes, and messages carrying a value,
+ * channel data, or attachments are kept as activities.
+ */
+
+import { ActivityAttachment, OutgoingActivity } from "../types/agent";
+
+/**
+ * Creates a message activity
+ * @param text - Message text
+ * @param attachments - Optional files attached to the message
+ * @param locale - Optional locale overriding the conversation's locale
+ * @returns OutgoingActivity - Message activity
+ */
+export function createMessageActivity(
+  text: string,
+  attachments: ActivityAttachment[] = [],
+  locale?: string
+): OutgoingActivity {
+  const activity: OutgoingActivity = { type: "message", text };
+  if (attachments.length > 0) {
+    activity.attachments = attachments;
+  }
+  if (locale) {
+    activity.locale = locale;
+  }
+  return activity;
+}
+
+/**
+ * Creates the message activity an Adaptive Card `Action.Submit` posts, as Web Chat does
+ *
+ * Object data, already merged with the card's input values, becomes the activity
+ * `value`, which is what Copilot Studio's "Ask with Adaptive Card" node reads.
+ * String data is sent as message text, and Teams `imBack`/`messageBack` data is
+ * unwrapped into text and value.
+ * @param data - Submitted data of the action, including the input values
+ * @returns OutgoingActivity - Message activity carrying the submission
+ */
+export function createCardSubmitActivity(data: any): OutgoingActivity {
+  if (typeof data === "string") {
+    return createMessageActivity(data);
+  }
+
+  const teamsAction = data?.msteams;
+  if (teamsAction?.type === "imBack" && typeof teamsAction.value === "string") {
+    return createMessageActivity(teamsAction.value);
+  }
+  if (teamsAction?.type === "messageBack") {
+    const { msteams, ...inputs } = data;
+    return {
+      type: "message",
+      text: teamsAction.text || undefined,
+      value: { ...inputs, ...teamsAction.value },
+    };
+  }
+
+  return { type: "message", value: data || {} };
+}
+
+/**
+ * Checks whether an activity is a plain text message without value or channel data
+ * @param activity - Activity to check
+ * @returns boolean - True if the activity is fully described by its text
+ */
+export function isPlainMessage(activity: OutgoingActivity): boolean {
+  return (
+    activity.type === "message" &&
+    !activity.name &&
+    activity.value === undefined &&
+    activity.channelData === undefined &&
+    !activity.attachments?.length
+  );
+}
+
+/**
+ * Describes an activity in one line for the conversation history
+ * @param activity - Activity sent by the user
+ * @returns string - Message text, attached file names or a card submission, or the activity type and name
+ */
+export function describeActivity(activity: OutgoingActivity): string {
+  if (activity.type === "message") {
+    if (!activity.text && !activity.attachments?.length) {
+      return activity.value !== undefined ? "📝 Card submitted" : "";
+    }
+    return (
+      activity.text ||
+      (activity.attachments || [])
+        .map((attachment) => `📎 ${attachment.name || attachment.contentType}`)
+        .join(", ")
+    );
+  }
+  const icon = activity.type === "event" ? "⚡" : "⚙️";
+  return `${icon} ${activity.type}${activity.name ? `: ${activity.name}` : ""}`;
+}
+
+/**
+ * Parses an optional JSON input of the activity composer
+ * @param label - Field name used in the error message
+ * @param value - Raw input; empty input means no value
+ * @returns any - Parsed value, or undefined for empty input
+ * @throws Error if the input is not valid JSON
+ */
+export function parseJsonInput(label: string, value: string): any {
+  if (!value.trim()) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error: any) {
+    throw new Error(`${label} is not valid JSON: ${error.message}`);
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Redirect State Service
+ *
+ * Persists the pending message and UI state in session storage while the browser
+ * leaves the page for redirect sign-in, and restores it once the page returns.
+ * The conversation itself is reopened from the session store; only its key is
+ * kept here, as its history can exceed the session storage quota.
+ */
+
+import { AgentConfig } from "../types/agent";
+
+const STORAGE_KEY = "agentSdk.pendingRedirect";
+
+/**
+ * Application state saved before a redirect sign-in round-trip
+ */
+export interface PendingRedirectState {
+  config: AgentConfig;
+  message: string;
+  continueConversation: boolean;
+  conversationKey: string;
+  conversationId: string | null;
+  savedAt: string;
+}
+
+/**
+ * Saves application state so it survives the redirect sign-in round-trip
+ * @param state - State to restore after the page returns
+ * @throws Error if session storage is unavailable or full; the redirect must not start then
+ */
+export function savePendingRedirectState(
+  state: Omit<PendingRedirectState, "savedAt">
+): void {
+  try {
+    sessionStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ ...state, savedAt: new Date().toISOString() })
+    );
+  } catch (error) {
+    throw new Error(
+      `The message could not be saved before signing in: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Reads and removes the state saved before a redirect sign-in
+ * @returns PendingRedirectState | null - Saved state, or null if there is none
+ */
+export function consumePendingRedirectState(): PendingRedirectState | null {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    sessionStorage.removeItem(STORAGE_KEY);
+    return JSON.parse(stored) as PendingRedirectState;
+  } catch (error) {
+    console.error("Failed to restore state after sign-in redirect:", error);
+    return null;
+  }
+}
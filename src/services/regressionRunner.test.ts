@@ -0,0 +1,86 @@
+import { AgentResponse } from "../types/agent";
+import { compareTurns } from "./regressionRunner";
+import { createResponse } from "./testResponses";
+
+/**
+ * Creates the metadata of a response with a card and the given activities
+ * @param cardText - Text of the card's text block
+ * @param activities - Activities the agent sent
+ * @returns AgentResponse["metadata"] - Metadata as recorded in a baseline
+ */
+function cardMetadata(
+  cardText: string,
+  activities: any[] = [{ type: "message" }]
+): AgentResponse["metadata"] {
+  return {
+    adaptiveCards: [
+      {
+        content: {
+          type: "AdaptiveCard",
+          id: cardText,
+          body: [{ type: "TextBlock", text: cardText }],
+        },
+      },
+    ],
+    suggestedActions: [{ type: "imBack", title: "Help" }],
+    fullActivities: activities,
+  };
+}
+
+describe("compareTurns", () => {
+  it("ignores GUIDs, timestamps and noise keys", () => {
+    const expected = createResponse(
+      "Ticket 3f2504e0-4f89-11d3-9a0c-0305e82c3301 created at 2024-01-01T10:00:00.000Z",
+      cardMetadata("Created 2024-01-01T10:00:00Z")
+    );
+    const actual = createResponse(
+      "Ticket 9a1b2c3d-0000-4000-8000-123456789abc created at 2024-05-06T11:12:13+02:00",
+      cardMetadata("Created 2024-05-06T11:12:13.456Z")
+    );
+    actual.metadata!.adaptiveCards![0].content.id = "another-card-id";
+
+    expect(compareTurns(expected, actual)).toEqual([]);
+  });
+
+  it("reports fields whose normalized values differ", () => {
+    const expected = createResponse(
+      "Your order shipped",
+      cardMetadata("Order 42")
+    );
+    const actual = createResponse(
+      "Your order is delayed",
+      cardMetadata("Order 43")
+    );
+
+    expect(
+      compareTurns(expected, actual).map((difference) => difference.field)
+    ).toEqual(["text", "adaptiveCards"]);
+    expect(compareTurns(expected, actual)[0]).toEqual({
+      field: "text",
+      expected: "Your order shipped",
+      actual: "Your order is delayed",
+    });
+  });
+
+  it("counts only messages and invoke responses", () => {
+    const expected = createResponse(
+      "Hi",
+      cardMetadata("Card", [{ type: "message" }])
+    );
+    const actual = createResponse(
+      "Hi",
+      cardMetadata("Card", [
+        { type: "typing" },
+        { type: "trace" },
+        { type: "event", name: "debug" },
+        { type: "message" },
+      ])
+    );
+    expect(compareTurns(expected, actual)).toEqual([]);
+
+    actual.metadata!.fullActivities!.push({ type: "message" });
+    expect(compareTurns(expected, actual)).toEqual([
+      { field: "activitiesCount", expected: "1", actual: "2" },
+    ]);
+  });
+});
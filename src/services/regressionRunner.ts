@@ -0,0 +1,251 @@
+/**
+ * Regression Runner
+ *
+ * Replays the conversation starts, user messages, events and invokes of a
+ * baseline through an AgentClient and compares every new turn with the recorded
+ * one: message text, adaptive card JSON, suggested actions and the number of
+ * activities. Values that change on every run, such as IDs and timestamps, are
+ * masked before comparing.
+ */
+
+import {
+  AgentResponse,
+  ConversationTurn,
+  RegressionBaseline,
+  RegressionDifference,
+  RegressionField,
+  RegressionRunReport,
+  RegressionTurnResult,
+} from "../types/agent";
+import { countReplies } from "./activitySummary";
+import { AgentClient } from "./agentService";
+import { createMessageActivity } from "./outgoingActivity";
+
+// Keys whose values differ between runs of the same conversation
+const noiseKeys = [
+  "id",
+  "timestamp",
+  "localTimestamp",
+  "replyToId",
+  "conversationId",
+  "activityId",
+  "requestId",
+];
+
+const guidPattern =
+  /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+const timestampPattern =
+  /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?/g;
+
+/**
+ * Options for a regression run
+ */
+export interface RegressionRunOptions {
+  target: string; // Name of the configuration the baseline is replayed against
+  signal?: AbortSignal; // Stops the run after the current turn
+  onProgress?: (report: RegressionRunReport) => void; // Called after every turn
+}
+
+/**
+ * Creates a baseline from a recorded conversation
+ * @param name - Name shown in the baseline list
+ * @param history - Recorded turns
+ * @returns RegressionBaseline - New baseline
+ */
+export function createBaseline(
+  name: string,
+  history: ConversationTurn[]
+): RegressionBaseline {
+  return {
+    id: `baseline-${Date.now()}`,
+    name,
+    history,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Replays a baseline in a conversation of its own and compares every turn
+ *
+ * Conversation start turns start a new agent conversation, as when recorded.
+ * Other turns without a user message cannot be replayed and are reported as skipped.
+ * @param agentClient - Client connected to the configuration under test
+ * @param baseline - Baseline to replay
+ * @param options - Target name, abort signal and progress callback
+ * @returns Promise<RegressionRunReport> - Report with one result per baseline turn
+ */
+export async function runRegression(
+  agentClient: AgentClient,
+  baseline: RegressionBaseline,
+  options: RegressionRunOptions
+): Promise<RegressionRunReport> {
+  const conversationKey = `regression-${Date.now()}`;
+  let report: RegressionRunReport = {
+    baselineId: baseline.id,
+    baselineName: baseline.name,
+    target: options.target,
+    startedAt: new Date().toISOString(),
+    turns: [],
+  };
+
+  const addResult = (result: RegressionTurnResult) => {
+    report = { ...report, turns: [...report.turns, result] };
+    if (options.onProgress) {
+      options.onProgress(report);
+    }
+  };
+
+  try {
+    for (let index = 0; index < baseline.history.length; index++) {
+      if (options.signal?.aborted) {
+        report = { ...report, aborted: true };
+        break;
+      }
+
+      const turn = baseline.history[index];
+      if (!turn.conversationStart && !turn.activity && !turn.message.trim()) {
+        addResult({
+          index,
+          message: turn.message,
+          status: "skipped",
+          differences: [],
+          response: null,
+          note: "No user message to replay",
+        });
+        continue;
+      }
+
+      // Replay in the language the baseline turn was recorded in
+      const response = turn.conversationStart
+        ? await agentClient.startConversation(
+            turn.conversationStart.emitStartEvent,
+            undefined,
+            options.signal,
+            conversationKey
+          )
+        : await agentClient.sendActivity(
+            {
+              ...(turn.activity || createMessageActivity(turn.message)),
+              locale: turn.activity?.locale || turn.response.metadata?.locale,
+            },
+            true,
+            undefined,
+            options.signal,
+            conversationKey
+          );
+
+      if (response.metadata?.aborted) {
+        report = { ...report, aborted: true };
+        break;
+      }
+
+      if (!response.success) {
+        addResult({
+          index,
+          message: turn.message,
+          status: "error",
+          differences: [],
+          response,
+          note: String(response.metadata?.error || response.message),
+        });
+        continue;
+      }
+
+      const differences = compareTurns(turn.response, response);
+      addResult({
+        index,
+        message: turn.message,
+        status: differences.length === 0 ? "passed" : "failed",
+        differences,
+        response,
+      });
+    }
+  } finally {
+    agentClient.resetConversationContext(conversationKey);
+  }
+
+  report = { ...report, finishedAt: new Date().toISOString() };
+  if (options.onProgress) {
+    options.onProgress(report);
+  }
+  return report;
+}
+
+/**
+ * Compares a recorded response with a replayed one
+ * @param expected - Response recorded in the baseline
+ * @param actual - Response received during the replay
+ * @returns RegressionDifference[] - Fields whose normalized values differ
+ */
+export function compareTurns(
+  expected: AgentResponse,
+  actual: AgentResponse
+): RegressionDifference[] {
+  const expectedSnapshot = createSnapshot(expected);
+  const actualSnapshot = createSnapshot(actual);
+  const fields: RegressionField[] = [
+    "text",
+    "adaptiveCards",
+    "suggestedActions",
+    "activitiesCount",
+  ];
+
+  return fields
+    .filter((field) => expectedSnapshot[field] !== actualSnapshot[field])
+    .map((field) => ({
+      field,
+      expected: expectedSnapshot[field],
+      actual: actualSnapshot[field],
+    }));
+}
+
+/**
+ * Reduces a response to the normalized values that are compared
+ * @param response - Agent response
+ * @returns Record<RegressionField, string> - Comparable value of each field
+ */
+function createSnapshot(
+  response: AgentResponse
+): Record<RegressionField, string> {
+  const metadata = response.metadata || {};
+  const cards = (metadata.adaptiveCards || []).map((card: any) => card.content);
+
+  return {
+    text: maskNoise(response.message || ""),
+    adaptiveCards: stringify(cards),
+    suggestedActions: stringify(metadata.suggestedActions || []),
+    // Counted from the activities when they were kept, so typing and traces never count
+    activitiesCount: String(
+      metadata.fullActivities
+        ? countReplies(metadata.fullActivities)
+        : metadata.activitiesCount ?? 0
+    ),
+  };
+}
+
+/**
+ * Serializes a value with noise keys removed and noisy strings masked
+ * @param value - Value to serialize
+ * @returns string - Indented JSON, stable across runs of the same turn
+ */
+function stringify(value: any): string {
+  return JSON.stringify(
+    value,
+    (key, item) => {
+      if (noiseKeys.indexOf(key) !== -1) return undefined;
+      return typeof item === "string" ? maskNoise(item) : item;
+    },
+    2
+  );
+}
+
+/**
+ * Replaces GUIDs and ISO timestamps in a string with placeholders
+ * @param value - String to mask
+ * @returns string - String without run-specific values
+ */
+function maskNoise(value: string): string {
+  return value
+    .replace(guidPattern, "<guid>")
+    .replace(timestampPattern, "<timestamp>");
+}
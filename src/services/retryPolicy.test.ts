@@ -0,0 +1,78 @@
+import {
+  defaultRetryPolicy,
+  getRetryDelay,
+  isRetryableError,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from "./retryPolicy";
+import { createAbortError } from "./abortSignal";
+
+describe("resolveRetryPolicy", () => {
+  it("fills in defaults and keeps at least one attempt", () => {
+    expect(resolveRetryPolicy()).toEqual(defaultRetryPolicy);
+    expect(resolveRetryPolicy({ maxAttempts: 0 }).maxAttempts).toBe(1);
+    expect(resolveRetryPolicy({ maxAttempts: 2.7 }).maxAttempts).toBe(2);
+  });
+});
+
+describe("isRetryableError", () => {
+  it("retries throttling, timeouts, server errors and network failures", () => {
+    expect(isRetryableError({ status: 429 })).toBe(true);
+    expect(isRetryableError({ response: { status: 503 } })).toBe(true);
+    expect(isRetryableError(new TypeError("Failed to fetch"))).toBe(true);
+  });
+
+  it("does not retry client errors or stopped turns", () => {
+    expect(isRetryableError({ status: 400 })).toBe(false);
+    expect(isRetryableError({ status: 401 })).toBe(false);
+    expect(isRetryableError(createAbortError())).toBe(false);
+    expect(isRetryableError(new Error("Bad configuration"))).toBe(false);
+  });
+});
+
+describe("getRetryDelay", () => {
+  const policy = resolveRetryPolicy({
+    initialDelayMs: 1000,
+    backoffMultiplier: 2,
+    maxDelayMs: 5000,
+  });
+
+  it("backs off exponentially up to the maximum delay", () => {
+    expect(getRetryDelay(policy, 1, {}).delayMs).toBe(1000);
+    expect(getRetryDelay(policy, 2, {}).delayMs).toBe(2000);
+    expect(getRetryDelay(policy, 3, {}).delayMs).toBe(4000);
+    expect(getRetryDelay(policy, 4, {})).toEqual({
+      delayMs: 5000,
+      retryAfter: false,
+    });
+  });
+
+  it("uses Retry-After, capped at the maximum delay", () => {
+    expect(getRetryDelay(policy, 1, { retryAfterMs: 3000 })).toEqual({
+      delayMs: 3000,
+      retryAfter: true,
+    });
+    expect(getRetryDelay(policy, 1, { retryAfterMs: 3600000 })).toEqual({
+      delayMs: 5000,
+      retryAfter: true,
+    });
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads delays in seconds and HTTP dates", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+
+    const inTenSeconds = new Date(Date.now() + 10000).toUTCString();
+    const delay = parseRetryAfter(inTenSeconds)!;
+    expect(delay).toBeGreaterThan(8000);
+    expect(delay).toBeLessThanOrEqual(10000);
+  });
+
+  it("never returns a negative delay", () => {
+    expect(parseRetryAfter("-5")).toBe(0);
+    expect(parseRetryAfter("Thu, 01 Jan 1970 00:00:00 GMT")).toBe(0);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Retry Policy
+ *
+ * Decides which agent failures are transient and how long to wait before the next
+ * attempt: exponential backoff, or the server's Retry-After value when the agent
+ * endpoint is throttling, both capped at the policy's maximum delay.
+ */
+
+import { RetryPolicy } from "../types/agent";
+import { isAbortError } from "./abortSignal";
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoffMultiplier: 2,
+};
+
+const retryableStatuses = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Fills in missing retry policy values with the defaults
+ * @param policy - Partial policy from the agent configuration
+ * @returns RetryPolicy - Complete policy with at least one attempt
+ */
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  const resolved = { ...defaultRetryPolicy, ...policy };
+  return {
+    ...resolved,
+    maxAttempts: Math.max(1, Math.floor(resolved.maxAttempts)),
+  };
+}
+
+/**
+ * Checks whether a failed request is worth retrying
+ * @param error - Error thrown by a transport
+ * @returns boolean - True for network failures, timeouts, throttling and server errors
+ */
+export function isRetryableError(error: any): boolean {
+  if (isAbortError(error)) {
+    return false;
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return retryableStatuses.indexOf(status) !== -1;
+  }
+
+  // fetch rejects with a TypeError when the network request itself fails
+  return error instanceof TypeError;
+}
+
+/**
+ * Gets the HTTP status carried by a transport error
+ * @param error - Error thrown by a transport
+ * @returns number | undefined - HTTP status code, if any
+ */
+export function getErrorStatus(error: any): number | undefined {
+  return error?.status ?? error?.response?.status;
+}
+
+/**
+ * Computes how long to wait before the next attempt
+ * @param policy - Retry policy in effect
+ * @param attempt - Number of the attempt that just failed, starting at 1
+ * @param error - Error of the failed attempt
+ * @returns Delay in milliseconds and whether it came from a Retry-After header
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  error: any
+): { delayMs: number; retryAfter: boolean } {
+  // A Retry-After of minutes or hours would leave the turn waiting with no sign of life
+  if (typeof error?.retryAfterMs === "number") {
+    return {
+      delayMs: Math.min(error.retryAfterMs, policy.maxDelayMs),
+      retryAfter: true,
+    };
+  }
+
+  const backoff =
+    policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+  return { delayMs: Math.min(backoff, policy.maxDelayMs), retryAfter: false };
+}
+
+/**
+ * Parses a Retry-After header value
+ * @param value - Header value: delay in seconds or an HTTP date
+ * @returns number | undefined - Delay in milliseconds, or undefined if absent or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
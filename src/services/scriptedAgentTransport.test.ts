@@ -0,0 +1,93 @@
+import { Activity } from "@microsoft/agents-activity";
+import { ScriptedScenario } from "../types/agent";
+import { ScriptedAgentTransport } from "./scriptedAgentTransport";
+
+const scenario: ScriptedScenario = {
+  id: "test",
+  name: "Test Agent",
+  greeting: [{ text: "Hello, how can I help?" }],
+  turns: [
+    { match: "^(hi|hello)\\b", replies: [{ text: "Hi there!" }] },
+    { match: "order", replies: [{ text: "Which order?" }, { text: "..." }] },
+    { match: "(broken", replies: [{ text: "Never matches" }] },
+    { match: '^value:.*"action":"submit"', replies: [{ text: "Submitted" }] },
+    { match: "^event:startTopic$", replies: [{ text: "Topic started" }] },
+  ],
+  fallback: [{ text: "Sorry, I did not get that." }],
+};
+
+/**
+ * Sends an activity to a new scripted transport and returns the reply texts
+ * @param activity - Activity sent by the user
+ * @returns Promise<string[]> - Text of every reply
+ */
+async function replyTexts(activity: object): Promise<string[]> {
+  const transport = new ScriptedAgentTransport(scenario);
+  const replies = await transport.sendActivity(
+    Activity.fromObject({ type: "message", ...activity }),
+    "conversation-1"
+  );
+  return replies.map((reply) => reply.text || "");
+}
+
+describe("ScriptedAgentTransport", () => {
+  it("answers with the replies of the first matching turn, ignoring case", async () => {
+    expect(await replyTexts({ text: "HELLO agent" })).toEqual(["Hi there!"]);
+    expect(await replyTexts({ text: "Where is my order?" })).toEqual([
+      "Which order?",
+      "...",
+    ]);
+  });
+
+  it("skips invalid patterns and falls back when nothing matches", async () => {
+    expect(await replyTexts({ text: "(broken" })).toEqual([
+      "Sorry, I did not get that.",
+    ]);
+  });
+
+  it("matches card submissions on their value", async () => {
+    expect(await replyTexts({ value: { action: "submit" } })).toEqual([
+      "Submitted",
+    ]);
+  });
+
+  it("matches other activities on their type and name", async () => {
+    expect(await replyTexts({ type: "event", name: "startTopic" })).toEqual([
+      "Topic started",
+    ]);
+  });
+
+  it("emits the greeting only for a start event", async () => {
+    const transport = new ScriptedAgentTransport(scenario);
+    const withEvent = await transport.startConversation(true);
+    const withoutEvent = await transport.startConversation(false);
+
+    expect(withEvent.activities.map((activity) => activity.text)).toEqual([
+      "Hello, how can I help?",
+    ]);
+    expect(withEvent.activities[0].conversation?.id).toBe(
+      withEvent.conversationId
+    );
+    expect(withoutEvent.activities).toEqual([]);
+  });
+
+  it("stops emitting replies when the signal fires", async () => {
+    const transport = new ScriptedAgentTransport({
+      ...scenario,
+      defaultDelayMs: 1000,
+    });
+    const controller = new AbortController();
+    const received: string[] = [];
+
+    const turn = transport.sendActivity(
+      Activity.fromObject({ type: "message", text: "order" }),
+      "conversation-1",
+      (activity) => received.push(activity.text || ""),
+      controller.signal
+    );
+    controller.abort();
+
+    await expect(turn).rejects.toMatchObject({ name: "AbortError" });
+    expect(received).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Scripted Agent Transport
+ *
+ * In-memory AgentTransport that answers from a JSON scenario instead of a live agent.
+ * Replies are matched by regular expression against the user's message (or the
+ * type and name of other activities, such as `event:startTopic`) and emitted
+ * one by one with a configurable delay, so streaming, cards and suggested actions can
+ * be exercised without a tenant or network access. A scenario greeting stands in
+ * for the Conversation Start topic when a conversation starts with a start event.
+ */
+
+import { Activity } from "@microsoft/agents-activity";
+import { ScriptedReply, ScriptedScenario } from "../types/agent";
+import { abortableDelay } from "./abortSignal";
+import { AgentTransport, StartedConversation } from "./agentTransport";
+import { ActivityListener } from "./streamingCopilotClient";
+
+/**
+ * Transport that replays canned activities from a scripted scenario
+ */
+export class ScriptedAgentTransport implements AgentTransport {
+  readonly name = "Scripted Agent";
+  readonly requiresAuthentication = false;
+  private scenario: ScriptedScenario;
+  private activityCounter = 0;
+
+  /**
+   * Creates new ScriptedAgentTransport instance
+   * @param scenario - Scenario providing the agent's canned replies
+   */
+  constructor(scenario: ScriptedScenario) {
+    this.scenario = scenario;
+  }
+
+  /**
+   * No connection is needed for the scripted agent
+   */
+  connect(): void {}
+
+  /**
+   * Nothing to release for the scripted agent
+   */
+  dispose(): void {}
+
+  /**
+   * Starts a new local conversation, emitting the scenario greeting on a start event
+   * @param emitStartConversationEvent - Whether the greeting replies are emitted
+   * @param signal - Optional signal that stops the remaining greeting replies
+   * @param onActivity - Optional listener called for each greeting reply
+   * @returns Promise<StartedConversation> - Generated conversation and its greeting activities
+   * @throws Error named "AbortError" if the signal fires before the greeting is emitted
+   */
+  async startConversation(
+    emitStartConversationEvent: boolean,
+    signal?: AbortSignal,
+    onActivity?: ActivityListener
+  ): Promise<StartedConversation> {
+    const conversationId = `scripted-${this.scenario.id}-${Date.now()}`;
+    const activities = await this.emitReplies(
+      emitStartConversationEvent ? this.scenario.greeting || [] : [],
+      conversationId,
+      onActivity,
+      signal
+    );
+    return { conversationId, activities };
+  }
+
+  /**
+   * Replies to an activity with the replies of the first matching scenario turn
+   * @param activity - Activity sent by the user
+   * @param conversationId - Conversation the activity belongs to
+   * @param onActivity - Optional listener called for each emitted reply
+   * @param signal - Optional signal that stops the remaining replies
+   * @returns Promise<Activity[]> - All reply activities for the turn
+   * @throws Error named "AbortError" if the signal fires before all replies are emitted
+   */
+  async sendActivity(
+    activity: Activity,
+    conversationId: string,
+    onActivity?: ActivityListener,
+    signal?: AbortSignal
+  ): Promise<Activity[]> {
+    return this.emitReplies(
+      this.findReplies(this.getMatchInput(activity)),
+      conversationId,
+      onActivity,
+      signal
+    );
+  }
+
+  /**
+   * Emits scripted replies one by one after their delays
+   * @param replies - Replies to emit
+   * @param conversationId - Conversation the replies belong to
+   * @param onActivity - Optional listener called for each emitted reply
+   * @param signal - Optional signal that stops the remaining replies
+   * @returns Promise<Activity[]> - All emitted reply activities
+   * @throws Error named "AbortError" if the signal fires before all replies are emitted
+   */
+  private async emitReplies(
+    replies: ScriptedReply[],
+    conversationId: string,
+    onActivity?: ActivityListener,
+    signal?: AbortSignal
+  ): Promise<Activity[]> {
+    const activities: Activity[] = [];
+
+    for (const reply of replies) {
+      await abortableDelay(
+        reply.delayMs ?? this.scenario.defaultDelayMs ?? 0,
+        signal
+      );
+
+      const replyActivity = this.createActivity(reply, conversationId);
+      activities.push(replyActivity);
+      if (onActivity) {
+        onActivity(replyActivity);
+      }
+    }
+
+    return activities;
+  }
+
+  /**
+   * Gets the text scenario patterns are matched against
+   *
+   * Messages match on their text, or on `value:` and their JSON value when they
+   * have no text, such as card submissions; other activities on their type and
+   * name, e.g. `event:startTopic`, so scenarios can answer events and invokes.
+   * @param activity - Activity sent by the user
+   * @returns string - Text to match
+   */
+  private getMatchInput(activity: Activity): string {
+    if (activity.type === "message") {
+      if (!activity.text && activity.value !== undefined) {
+        return `value:${JSON.stringify(activity.value)}`;
+      }
+      return activity.text || "";
+    }
+    return `${activity.type}:${activity.name || ""}`;
+  }
+
+  /**
+   * Finds the replies of the first turn whose pattern matches the message
+   * @param text - User message text
+   * @returns ScriptedReply[] - Matching replies, or the scenario fallback
+   */
+  private findReplies(text: string): ScriptedReply[] {
+    const turn = this.scenario.turns.find((candidate) => {
+      try {
+        return new RegExp(candidate.match, "i").test(text);
+      } catch {
+        return false;
+      }
+    });
+
+    return turn ? turn.replies : this.scenario.fallback;
+  }
+
+  /**
+   * Builds a Bot Framework activity from a scripted reply
+   * @param reply - Scripted reply definition
+   * @param conversationId - Conversation the reply belongs to
+   * @returns Activity - Reply activity as sent by the scripted agent
+   */
+  private createActivity(
+    reply: ScriptedReply,
+    conversationId: string
+  ): Activity {
+    const { delayMs, suggestedActions, ...content } = reply;
+    this.activityCounter += 1;
+
+    return Activity.fromObject({
+      type: "message",
+      ...content,
+      // Activities require the recipients of suggested actions; scenarios leave them out
+      ...(suggestedActions && {
+        suggestedActions: { to: [], ...suggestedActions },
+      }),
+      id: `${conversationId}-${this.activityCounter}`,
+      timestamp: new Date().toISOString(),
+      from: { id: `scripted-${this.scenario.id}`, name: this.scenario.name },
+      conversation: { id: conversationId },
+    });
+  }
+}
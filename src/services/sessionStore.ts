@@ -0,0 +1,302 @@
+/**
+ * Session Store Service
+ *
+ * Persists conversations in IndexedDB so exploratory sessions survive page reloads.
+ * Each session holds its turns with the full activities and metadata of every
+ * response, which is too large for localStorage once cards are involved. Regression
+ * baselines are kept in a second object store of the same database.
+ */
+
+import {
+  Conversation,
+  RegressionBaseline,
+  SessionRetention,
+  StoredSession,
+} from "../types/agent";
+import { ConversationManager } from "./conversationManager";
+
+const DATABASE_NAME = "agentSdk";
+const DATABASE_VERSION = 2;
+const SESSION_STORE = "sessions";
+const BASELINE_STORE = "baselines";
+const RETENTION_STORAGE_KEY = "agentSdk.sessionRetention";
+
+export const defaultSessionRetention: SessionRetention = {
+  maxSessions: 50,
+  maxAgeDays: 30,
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the session database, creating missing object stores on upgrade
+ * @returns Promise<IDBDatabase> - Open database connection, shared by all calls
+ * @throws Error if IndexedDB is unavailable or the database cannot be opened
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        [SESSION_STORE, BASELINE_STORE].forEach((storeName) => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName, { keyPath: "id" });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry after a failed open
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Runs a request against one object store in its own transaction
+ * @param storeName - Object store to use
+ * @param mode - Transaction mode
+ * @param createRequest - Creates the request from the object store
+ * @returns Promise<T> - Result of the request once the transaction completes
+ */
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Loads all saved sessions
+ * @returns Promise<StoredSession[]> - Sessions, most recently updated first
+ */
+export async function loadSessions(): Promise<StoredSession[]> {
+  const sessions = await runRequest<StoredSession[]>(
+    SESSION_STORE,
+    "readonly",
+    (store) => store.getAll()
+  );
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Saves or replaces a session
+ * @param session - Session to save
+ * @returns Promise<void>
+ */
+export async function saveSession(session: StoredSession): Promise<void> {
+  // Activities are class instances; store them as plain JSON
+  const plainSession = JSON.parse(JSON.stringify(session));
+  await runRequest(SESSION_STORE, "readwrite", (store) =>
+    store.put(plainSession)
+  );
+}
+
+/**
+ * Deletes a saved session
+ * @param id - Session to delete
+ * @returns Promise<void>
+ */
+export async function deleteSession(id: string): Promise<void> {
+  await runRequest(SESSION_STORE, "readwrite", (store) => store.delete(id));
+}
+
+/**
+ * Deletes all saved sessions
+ * @returns Promise<void>
+ */
+export async function clearSessions(): Promise<void> {
+  await runRequest(SESSION_STORE, "readwrite", (store) => store.clear());
+}
+
+/**
+ * Removes sessions beyond the retention limits; open sessions are kept
+ * @param retention - Maximum number of sessions and maximum age in days
+ * @returns Promise<number> - Number of deleted sessions
+ */
+export async function applyRetention(
+  retention: SessionRetention = defaultSessionRetention
+): Promise<number> {
+  const sessions = await loadSessions();
+  const oldestAllowed = Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000;
+
+  const expired = sessions.filter(
+    (session, index) =>
+      !session.isOpen &&
+      (index >= retention.maxSessions ||
+        new Date(session.updatedAt).getTime() < oldestAllowed)
+  );
+
+  for (const session of expired) {
+    await deleteSession(session.id);
+  }
+  return expired.length;
+}
+
+/**
+ * Loads all regression baselines
+ * @returns Promise<RegressionBaseline[]> - Baselines, most recently created first
+ */
+export async function loadBaselines(): Promise<RegressionBaseline[]> {
+  const baselines = await runRequest<RegressionBaseline[]>(
+    BASELINE_STORE,
+    "readonly",
+    (store) => store.getAll()
+  );
+  return baselines.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Saves or replaces a regression baseline
+ * @param baseline - Baseline to save
+ * @returns Promise<void>
+ */
+export async function saveBaseline(
+  baseline: RegressionBaseline
+): Promise<void> {
+  const plainBaseline = JSON.parse(JSON.stringify(baseline));
+  await runRequest(BASELINE_STORE, "readwrite", (store) =>
+    store.put(plainBaseline)
+  );
+}
+
+/**
+ * Deletes a regression baseline
+ * @param id - Baseline to delete
+ * @returns Promise<void>
+ */
+export async function deleteBaseline(id: string): Promise<void> {
+  await runRequest(BASELINE_STORE, "readwrite", (store) => store.delete(id));
+}
+
+/**
+ * Reads the retention limits chosen by the user
+ * @returns SessionRetention - Saved limits, or the defaults
+ */
+export function loadSessionRetention(): SessionRetention {
+  try {
+    const stored = localStorage.getItem(RETENTION_STORAGE_KEY);
+    return stored
+      ? { ...defaultSessionRetention, ...JSON.parse(stored) }
+      : defaultSessionRetention;
+  } catch (error) {
+    console.error("Failed to read session retention settings:", error);
+    return defaultSessionRetention;
+  }
+}
+
+/**
+ * Saves the retention limits chosen by the user
+ * @param retention - Limits to apply to saved sessions
+ */
+export function saveSessionRetention(retention: SessionRetention): void {
+  try {
+    localStorage.setItem(RETENTION_STORAGE_KEY, JSON.stringify(retention));
+  } catch (error) {
+    console.error("Failed to save session retention settings:", error);
+  }
+}
+
+/**
+ * Converts a saved session back into a conversation that can be opened as a tab
+ * @param session - Saved session
+ * @returns Conversation - Conversation with the saved history and no pending turn
+ */
+export function toConversation(session: StoredSession): Conversation {
+  const lastTurn = session.history[session.history.length - 1];
+  return {
+    id: session.id,
+    title: session.title,
+    history: session.history,
+    response: lastTurn ? lastTurn.response : null,
+    lastMessage: lastTurn ? lastTurn.message : "",
+    isPending: false,
+    createdAt: session.createdAt,
+    locale: session.locale,
+  };
+}
+
+/**
+ * Saves a conversation as a session
+ * @param conversation - Conversation to save
+ * @param isOpen - Whether the conversation is open as a tab and reopens after a reload
+ * @returns Promise<void>
+ * @throws Error if the session cannot be saved
+ */
+export async function saveConversation(
+  conversation: Conversation,
+  isOpen: boolean
+): Promise<void> {
+  await saveSession({
+    id: conversation.id,
+    title: conversation.title,
+    history: conversation.history,
+    createdAt: conversation.createdAt,
+    updatedAt: new Date().toISOString(),
+    isOpen,
+    locale: conversation.locale,
+  });
+}
+
+/**
+ * Saves conversations whenever their history or title changes, and marks closed ones
+ *
+ * Conversations without turns are not saved. Streaming updates of a pending
+ * response are skipped; the turn is saved once it has completed.
+ * @param manager - Conversation manager to follow
+ * @param onError - Called when a session cannot be saved
+ * @param restored - Conversations just opened from storage, which need no saving
+ * @returns Function that stops following the manager
+ */
+export function persistConversations(
+  manager: ConversationManager,
+  onError: (error: unknown) => void,
+  restored: Conversation[] = []
+): () => void {
+  const saved = new Map<string, Conversation>();
+  restored.forEach((conversation) => saved.set(conversation.id, conversation));
+
+  const save = (conversation: Conversation, isOpen: boolean) => {
+    saveConversation(conversation, isOpen).catch(onError);
+  };
+
+  return manager.subscribe(({ conversations }) => {
+    const openIds = conversations.map((conversation) => conversation.id);
+
+    conversations.forEach((conversation) => {
+      const previous = saved.get(conversation.id);
+      const changed =
+        !previous ||
+        previous.history !== conversation.history ||
+        previous.title !== conversation.title;
+      if (conversation.history.length === 0 || !changed) return;
+
+      saved.set(conversation.id, conversation);
+      save(conversation, true);
+    });
+
+    saved.forEach((conversation, id) => {
+      if (openIds.indexOf(id) === -1) {
+        saved.delete(id);
+        save(conversation, false);
+      }
+    });
+  });
+}
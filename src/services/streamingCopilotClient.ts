@@ -0,0 +1,221 @@
+/**
+ * Streaming Copilot Studio Client
+ *
+ * Extends the SDK's CopilotStudioClient with turn methods that read the agent's
+ * server-sent event stream incrementally. Each activity is handed to a listener
+ * as soon as its event arrives instead of after the whole turn has completed.
+ * Requests carry the same User-Agent as the SDK's own and follow its switch to
+ * the experimental endpoint.
+ */
+
+import { Activity } from "@microsoft/agents-activity";
+import {
+  CopilotStudioClient,
+  ConnectionSettings,
+  ExecuteTurnRequest,
+  getCopilotStudioConnectionUrl,
+} from "@microsoft/agents-copilotstudio-client";
+import sdkPackage from "@microsoft/agents-copilotstudio-client/package.json";
+import { parseRetryAfter } from "./retryPolicy";
+
+/**
+ * Listener invoked for every activity received from the agent stream
+ */
+export type ActivityListener = (activity: Activity) => void;
+
+/**
+ * Error raised when the agent endpoint answers with a non-success HTTP status
+ */
+export class AgentRequestError extends Error {
+  readonly status: number;
+  readonly retryAfterMs?: number;
+
+  /**
+   * Creates new AgentRequestError instance
+   * @param message - Human-readable error message
+   * @param status - HTTP status code returned by the agent endpoint
+   * @param retryAfterMs - Delay requested by the endpoint's Retry-After header, if any
+   */
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    Object.setPrototypeOf(this, AgentRequestError.prototype);
+    this.name = "AgentRequestError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Copilot Studio client with incremental (streaming) activity delivery
+ */
+export class StreamingCopilotClient extends CopilotStudioClient {
+  private static readonly conversationIdHeader = "x-ms-conversationid";
+  private static readonly experimentalUrlHeader = "x-ms-d2e-experimental";
+  private readonly connectionSettings: ConnectionSettings;
+  private readonly accessToken: string;
+
+  /**
+   * Creates new StreamingCopilotClient instance
+   * @param settings - Copilot Studio connection settings
+   * @param token - Access token for the Power Platform API
+   */
+  constructor(settings: ConnectionSettings, token: string) {
+    super(settings, token);
+    this.connectionSettings = settings;
+    this.accessToken = token;
+  }
+
+  /**
+   * Builds the User-Agent the SDK sends with its own requests
+   * @returns string - SDK name and version followed by the browser's user agent
+   */
+  private static getUserAgent(): string {
+    return `CopilotStudioClient.agents-sdk-js/${sdkPackage.version} ${navigator.userAgent}`;
+  }
+
+  /**
+   * Starts a conversation and streams the activities the agent sends on start
+   * @param emitStartConversationEvent - Whether the agent should receive a start event
+   * @param onActivity - Optional listener called for each received activity
+   * @param signal - Optional signal that cancels the request
+   * @returns Promise with the conversation ID and all received activities
+   */
+  async startConversationStreaming(
+    emitStartConversationEvent: boolean,
+    onActivity?: ActivityListener,
+    signal?: AbortSignal
+  ): Promise<{ conversationId: string; activities: Activity[] }> {
+    return this.postStreamingRequest(
+      getCopilotStudioConnectionUrl(this.connectionSettings),
+      { emitStartConversationEvent },
+      onActivity,
+      signal
+    );
+  }
+
+  /**
+   * Sends an activity and streams the agent's reply activities as they arrive
+   * @param activity - Activity to send to the agent
+   * @param conversationId - Conversation the activity belongs to
+   * @param onActivity - Optional listener called for each received activity
+   * @param signal - Optional signal that cancels the request
+   * @returns Promise<Activity[]> - All activities received during the turn
+   */
+  async sendActivityStreaming(
+    activity: Activity,
+    conversationId: string,
+    onActivity?: ActivityListener,
+    signal?: AbortSignal
+  ): Promise<Activity[]> {
+    const url = getCopilotStudioConnectionUrl(
+      this.connectionSettings,
+      conversationId
+    );
+    const result = await this.postStreamingRequest(
+      url,
+      new ExecuteTurnRequest(activity),
+      onActivity,
+      signal
+    );
+    return result.activities;
+  }
+
+  /**
+   * Posts a request to the agent endpoint and parses the event stream line by line
+   * @param url - Copilot Studio connection URL
+   * @param body - Request body to post
+   * @param onActivity - Optional listener called for each received activity
+   * @param signal - Optional signal that cancels the request and stops reading the stream
+   * @returns Promise with the conversation ID and all received activities
+   * @throws Error if the endpoint rejects the request, the stream is unreadable or the signal fires
+   */
+  private async postStreamingRequest(
+    url: string,
+    body: object,
+    onActivity?: ActivityListener,
+    signal?: AbortSignal
+  ): Promise<{ conversationId: string; activities: Activity[] }> {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        Accept: "text/event-stream",
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.accessToken}`,
+        "User-Agent": StreamingCopilotClient.getUserAgent(),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new AgentRequestError(
+        `Request failed with status code ${response.status}${
+          response.statusText ? ` (${response.statusText})` : ""
+        }`,
+        response.status,
+        parseRetryAfter(response.headers.get("Retry-After"))
+      );
+    }
+
+    // Like the SDK, switch to the experimental endpoint once the service names one
+    const experimentalUrl = response.headers.get(
+      StreamingCopilotClient.experimentalUrlHeader
+    );
+    if (
+      experimentalUrl &&
+      this.connectionSettings.useExperimentalEndpoint &&
+      !this.connectionSettings.directConnectUrl?.trim()
+    ) {
+      this.connectionSettings.directConnectUrl = experimentalUrl;
+    }
+
+    if (!response.body) {
+      throw new Error("Agent response did not contain a readable stream");
+    }
+
+    let conversationId =
+      response.headers.get(StreamingCopilotClient.conversationIdHeader) || "";
+    const activities: Activity[] = [];
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    const processLine = (line: string) => {
+      const trimmed = line.trim();
+      if (trimmed.substring(0, 5) !== "data:") return;
+
+      const data = trimmed.substring(5).trim();
+      if (!data || data === "end") return;
+
+      // Every activity is kept, including typing, events and traces, so the
+      // turn timeline shows what the agent did; the summary picks the messages
+      const activity = Activity.fromJson(data);
+
+      if (!conversationId && activity.conversation?.id) {
+        conversationId = activity.conversation.id;
+      }
+
+      activities.push(activity);
+      if (onActivity) {
+        onActivity(activity);
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      lines.forEach(processLine);
+    }
+
+    buffer += decoder.decode();
+    if (buffer) {
+      processLine(buffer);
+    }
+
+    return { conversationId, activities };
+  }
+}
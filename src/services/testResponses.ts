@@ -0,0 +1,26 @@
+/**
+ * Test Responses
+ *
+ * Agent responses for the tests of the services that check or compare them.
+ */
+
+import { AgentResponse } from "../types/agent";
+
+/**
+ * Creates a successful agent response
+ * @param message - Text of the response
+ * @param metadata - Extra response metadata
+ * @returns AgentResponse - Response as returned by AgentClient
+ */
+export function createResponse(
+  message: string,
+  metadata: AgentResponse["metadata"] = {}
+): AgentResponse {
+  return {
+    message,
+    success: true,
+    timestamp: "2024-01-01T00:00:00.000Z",
+    conversationId: "conversation-1",
+    metadata: { duration: 100, ...metadata },
+  };
+}
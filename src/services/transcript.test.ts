@@ -0,0 +1,153 @@
+import { ConversationTurn } from "../types/agent";
+import { createTranscript, parseTranscript } from "./transcript";
+
+const card = {
+  type: "AdaptiveCard",
+  version: "1.5",
+  body: [{ type: "TextBlock", text: "Order 42" }],
+};
+
+const history: ConversationTurn[] = [
+  {
+    message: "",
+    conversationStart: { emitStartEvent: true },
+    timestamp: "2024-01-01T10:00:01.000Z",
+    response: {
+      message: "Hello!",
+      success: true,
+      timestamp: "2024-01-01T10:00:01.000Z",
+      conversationId: "conversation-1",
+      metadata: {
+        startTime: "2024-01-01T10:00:00.000Z",
+        fullActivities: [
+          {
+            type: "message",
+            text: "Hello!",
+            timestamp: "2024-01-01T10:00:01.000Z",
+            conversation: { id: "conversation-1" },
+          },
+        ],
+      },
+    },
+  },
+  {
+    message: "Show my order",
+    timestamp: "2024-01-01T10:01:02.000Z",
+    response: {
+      message: "Here it is",
+      success: true,
+      timestamp: "2024-01-01T10:01:02.000Z",
+      conversationId: "conversation-1",
+      metadata: {
+        startTime: "2024-01-01T10:01:00.000Z",
+        locale: "en-US",
+        fullActivities: [
+          {
+            type: "typing",
+            timestamp: "2024-01-01T10:01:01.000Z",
+          },
+          {
+            type: "message",
+            text: "Here it is",
+            timestamp: "2024-01-01T10:01:02.000Z",
+            attachments: [
+              {
+                contentType: "application/vnd.microsoft.card.adaptive",
+                content: card,
+              },
+            ],
+            suggestedActions: { actions: [{ type: "imBack", title: "Help" }] },
+          },
+        ],
+      },
+    },
+  },
+  {
+    message: "⚡ event: startTopic",
+    activity: { type: "event", name: "startTopic", value: { id: 1 } },
+    timestamp: "2024-01-01T10:02:00.000Z",
+    response: {
+      message: "",
+      success: true,
+      timestamp: "2024-01-01T10:02:00.000Z",
+      conversationId: "conversation-1",
+      metadata: { startTime: "2024-01-01T10:02:00.000Z", fullActivities: [] },
+    },
+  },
+];
+
+describe("transcripts", () => {
+  it("exports user and agent activities in order", () => {
+    const activities = createTranscript(history);
+    expect(activities.map((activity) => activity.type)).toEqual([
+      "message",
+      "message",
+      "typing",
+      "message",
+      "event",
+    ]);
+    expect(activities[1]).toMatchObject({
+      text: "Show my order",
+      from: { role: "user" },
+      locale: "en-US",
+      timestamp: "2024-01-01T10:01:00.000Z",
+      conversation: { id: "conversation-1" },
+    });
+    expect(activities[0].from.role).toBe("bot");
+  });
+
+  it("rebuilds the same turns from an exported transcript", () => {
+    const turns = parseTranscript(JSON.stringify(createTranscript(history)));
+
+    expect(turns.map((turn) => turn.message)).toEqual([
+      "",
+      "Show my order",
+      "⚡ event: startTopic",
+    ]);
+    expect(turns[0].conversationStart).toEqual({ emitStartEvent: true });
+    expect(turns[0].response.message).toBe("Hello!");
+
+    expect(turns[1].activity).toBeUndefined();
+    expect(turns[1].timestamp).toBe("2024-01-01T10:01:02.000Z");
+    expect(turns[1].response.message).toBe("Here it is");
+    expect(turns[1].response.metadata).toMatchObject({
+      duration: 2000,
+      activitiesCount: 1,
+      adaptiveCards: [{ content: card }],
+      suggestedActions: [{ type: "imBack", title: "Help" }],
+    });
+
+    expect(turns[2].activity).toMatchObject({
+      type: "event",
+      name: "startTopic",
+      value: { id: 1 },
+    });
+  });
+
+  it("shows turns without timestamps at the time of the import", () => {
+    const before = Date.now();
+    const [turn] = parseTranscript(
+      JSON.stringify([
+        { type: "message", text: "Hi", from: { role: "user" } },
+        { type: "message", text: "Hello", timestamp: "not a date" },
+      ])
+    );
+
+    expect(Date.parse(turn.timestamp)).toBeGreaterThanOrEqual(before);
+    expect(turn.response.timestamp).toBe(turn.timestamp);
+    expect(turn.response.metadata?.startTime).toBeUndefined();
+    expect(turn.response.metadata?.duration).toBeUndefined();
+  });
+
+  it("rejects files that are not transcripts", () => {
+    expect(() => parseTranscript("not json")).toThrow(
+      "Transcript is not valid JSON"
+    );
+    expect(() => parseTranscript('{"type": "message"}')).toThrow(
+      "Transcript must be a JSON array of activities"
+    );
+    expect(() => parseTranscript('[{"text": "Hi"}]')).toThrow(
+      "Transcript must be a JSON array of activities"
+    );
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Transcript Service
+ *
+ * Exports conversations in the Bot Framework `.transcript` format (a JSON array of
+ * activities, as written by the Bot Framework Emulator) and rebuilds conversation
+ * history from such files, so repro cases can be exchanged and reviewed offline.
+ */
+
+import {
+  AgentResponse,
+  ConversationTurn,
+  OutgoingActivity,
+} from "../types/agent";
+import {
+  countReplies,
+  createActivityTimeline,
+  summarizeActivities,
+} from "./activitySummary";
+import { downloadFile } from "./fileDownload";
+import { describeActivity, isPlainMessage } from "./outgoingActivity";
+
+const userAccount = { id: "user", name: "User", role: "user" };
+const botAccount = { id: "bot", name: "Agent", role: "bot" };
+
+/**
+ * Converts conversation history into transcript activities
+ * @param history - Conversation turns to export
+ * @returns any[] - User and agent activities in chronological order
+ */
+export function createTranscript(history: ConversationTurn[]): any[] {
+  const activities: any[] = [];
+
+  history.forEach((turn, index) => {
+    const conversationId =
+      turn.response.metadata?.conversationId || turn.response.conversationId;
+    const agentActivities = turn.response.metadata?.fullActivities || [];
+    const agent = agentActivities.find((activity) => activity.from)?.from;
+
+    // A conversation start has no user activity, only the agent's greeting
+    if (!turn.conversationStart) {
+      activities.push({
+        ...(turn.activity || { type: "message", text: turn.message }),
+        id: `user-${index + 1}`,
+        timestamp: turn.response.metadata?.startTime || turn.timestamp,
+        channelId: "transcript",
+        from: userAccount,
+        recipient: agent ? { ...agent, role: "bot" } : botAccount,
+        conversation: { id: conversationId },
+        locale: turn.activity?.locale || turn.response.metadata?.locale,
+      });
+    }
+
+    agentActivities.forEach((activity) => {
+      // Activities are class instances; export them as plain JSON
+      const plainActivity = JSON.parse(JSON.stringify(activity));
+      activities.push({
+        ...plainActivity,
+        timestamp: plainActivity.timestamp || turn.timestamp,
+        from: { ...botAccount, ...plainActivity.from, role: "bot" },
+        recipient: plainActivity.recipient || userAccount,
+        conversation: plainActivity.conversation || { id: conversationId },
+      });
+    });
+  });
+
+  return activities;
+}
+
+/**
+ * Downloads conversation history as a `.transcript` file
+ * @param history - Conversation turns to export
+ * @param title - Conversation title, used for the file name
+ */
+export function downloadTranscript(
+  history: ConversationTurn[],
+  title: string
+): void {
+  downloadFile(
+    JSON.stringify(createTranscript(history), null, 2),
+    `${
+      title.replace(/[^a-z0-9-_ ]/gi, "").trim() || "conversation"
+    }.transcript`,
+    "application/json"
+  );
+}
+
+/**
+ * Rebuilds conversation history from the contents of a `.transcript` file
+ *
+ * Every user activity (message, event, or invoke) starts a turn; the activities
+ * that follow it until the next one form the agent's response. Activities before
+ * the first user activity, such as a greeting, are kept as a turn with an empty
+ * message. Turns without valid timestamps are shown at the time of the import.
+ * @param contents - File contents
+ * @returns ConversationTurn[] - Rebuilt conversation turns
+ * @throws Error if the file is not a transcript
+ */
+export function parseTranscript(contents: string): ConversationTurn[] {
+  let activities: any;
+  try {
+    activities = JSON.parse(contents);
+  } catch {
+    throw new Error("Transcript is not valid JSON");
+  }
+
+  if (
+    !Array.isArray(activities) ||
+    activities.some(
+      (activity) => !activity || typeof activity.type !== "string"
+    )
+  ) {
+    throw new Error("Transcript must be a JSON array of activities");
+  }
+
+  const turns: ConversationTurn[] = [];
+  const importTime = new Date().toISOString();
+  let userActivity: any = null;
+  let agentActivities: any[] = [];
+
+  const completeTurn = () => {
+    if (!userActivity && agentActivities.length === 0) return;
+    turns.push(createTurn(userActivity, agentActivities, importTime));
+  };
+
+  activities.forEach((activity: any) => {
+    if (activity.from?.role === "user") {
+      completeTurn();
+      userActivity = activity;
+      agentActivities = [];
+    } else {
+      agentActivities.push(activity);
+    }
+  });
+  completeTurn();
+
+  return turns;
+}
+
+/**
+ * Builds a conversation turn from a user activity and the agent's replies
+ * @param userActivity - Activity sent by the user, or null for activities before the first one
+ * @param agentActivities - Agent activities that followed the message
+ * @param importTime - Time the turn is shown at when its activities have no timestamps
+ * @returns ConversationTurn - Turn as shown in the conversation history
+ */
+function createTurn(
+  userActivity: any,
+  agentActivities: any[],
+  importTime: string
+): ConversationTurn {
+  const lastActivity = agentActivities[agentActivities.length - 1];
+  const conversationId =
+    userActivity?.conversation?.id || lastActivity?.conversation?.id || "";
+  const startTime =
+    readTimestamp(userActivity) || readTimestamp(agentActivities[0]);
+  const endTime = readTimestamp(lastActivity) || startTime;
+  const shownTime = endTime || importTime;
+  const summary = summarizeActivities(agentActivities, conversationId);
+
+  const response: AgentResponse = {
+    message: summary.text,
+    success: true,
+    timestamp: shownTime,
+    conversationId,
+    metadata: {
+      endpoint: "Transcript import",
+      locale: userActivity?.locale,
+      duration:
+        startTime && endTime
+          ? new Date(endTime).getTime() - new Date(startTime).getTime()
+          : undefined,
+      startTime: startTime || undefined,
+      endTime: endTime || undefined,
+      conversationId,
+      suggestedActions: summary.suggestedActions,
+      adaptiveCards: summary.adaptiveCards,
+      activitiesCount: countReplies(agentActivities),
+      hasAdaptiveCards: summary.hasAdaptiveCards,
+      hasText: summary.hasText,
+      hasSuggestedActions: summary.hasSuggestedActions,
+      fullActivities: agentActivities,
+      timeline: createActivityTimeline(agentActivities, startTime || undefined),
+    },
+  };
+
+  // Activities before the first user activity were sent when the conversation started
+  if (!userActivity) {
+    return {
+      message: "",
+      conversationStart: { emitStartEvent: true },
+      response,
+      timestamp: shownTime,
+    };
+  }
+
+  const activity: OutgoingActivity = {
+    type: userActivity.type,
+    name: userActivity.name,
+    text: userActivity.text,
+    value: userActivity.value,
+    channelData: userActivity.channelData,
+    attachments: userActivity.attachments,
+  };
+  return {
+    message: describeActivity(activity),
+    activity: isPlainMessage(activity) ? undefined : activity,
+    response,
+    timestamp: shownTime,
+  };
+}
+
+/**
+ * Reads the timestamp of a transcript activity
+ * @param activity - Activity from the transcript, if any
+ * @returns string - Timestamp, or an empty string if it is missing or invalid
+ */
+function readTimestamp(activity: any): string {
+  return activity && !isNaN(Date.parse(activity.timestamp))
+    ? activity.timestamp
+    : "";
+}
@@ -0,0 +1,125 @@
+/**
+ * Universal Actions
+ *
+ * Helpers for Adaptive Card Universal Actions: the `adaptiveCard/action` invoke
+ * sent when an `Action.Execute` runs, the card or message the agent answers with,
+ * and the `refresh` block that lets a card update itself when it is shown to one
+ * of the users listed in its `userIds`.
+ */
+
+import {
+  AgentResponse,
+  CardExecuteAction,
+  CardInvokeResult,
+  OutgoingActivity,
+} from "../types/agent";
+
+export const adaptiveCardContentType =
+  "application/vnd.microsoft.card.adaptive";
+const messageContentType = "application/vnd.microsoft.activity.message";
+const errorContentType = "application/vnd.microsoft.error";
+
+/**
+ * Creates the invoke activity that runs an `Action.Execute`
+ * @param action - Action with its verb and data
+ * @param trigger - "manual" for a clicked button, "automatic" for a refresh
+ * @returns OutgoingActivity - `adaptiveCard/action` invoke activity
+ */
+export function createExecuteActivity(
+  action: CardExecuteAction,
+  trigger: "manual" | "automatic"
+): OutgoingActivity {
+  return {
+    type: "invoke",
+    name: "adaptiveCard/action",
+    value: {
+      action: {
+        type: "Action.Execute",
+        id: action.id,
+        verb: action.verb,
+        data: action.data,
+      },
+      trigger,
+    },
+  };
+}
+
+/**
+ * Reads the card or message from the invoke response of an `adaptiveCard/action`
+ * @param activity - Activity received from the agent
+ * @returns CardInvokeResult | null - Result, or null if the activity is not such a response
+ * @throws Error if the agent answered with an error
+ */
+export function readInvokeResponse(activity: any): CardInvokeResult | null {
+  const body = activity?.type === "invokeResponse" && activity.value?.body;
+  if (!body || typeof body !== "object") return null;
+
+  if (body.type === adaptiveCardContentType) {
+    return { card: body.value };
+  }
+  if (body.type === messageContentType) {
+    return { message: String(body.value ?? "") };
+  }
+  if (body.type === errorContentType) {
+    throw new Error(
+      `The agent rejected the card action: ${
+        body.value?.message || body.value?.code || "unknown error"
+      }`
+    );
+  }
+  return null;
+}
+
+/**
+ * Finds the outcome of an `adaptiveCard/action` invoke in the agent's response
+ *
+ * Agents that answer with a new message instead of an invoke response have their
+ * first card used as the replacement.
+ * @param response - Response to the invoke
+ * @returns CardInvokeResult - Card or message returned by the agent
+ * @throws Error if the turn failed or the agent returned an error
+ */
+export function findInvokeResult(response: AgentResponse): CardInvokeResult {
+  if (!response.success) {
+    throw new Error(String(response.metadata?.error || response.message));
+  }
+
+  for (const activity of response.metadata?.fullActivities || []) {
+    const result = readInvokeResponse(activity);
+    if (result) return result;
+  }
+
+  const card = response.metadata?.adaptiveCards?.[0]?.content;
+  return card ? { card } : { message: response.message };
+}
+
+/**
+ * Gets the action of a card's `refresh` block
+ * @param card - Adaptive card content
+ * @returns CardExecuteAction | null - Refresh action, or null if the card has none
+ */
+export function getRefreshAction(card: any): CardExecuteAction | null {
+  const action = card?.refresh?.action;
+  if (!action || (action.type && action.type !== "Action.Execute")) {
+    return null;
+  }
+  return { id: action.id, verb: action.verb, data: action.data };
+}
+
+/**
+ * Checks whether a card refreshes itself for a user as soon as it is shown
+ *
+ * As in Teams, only users listed in `refresh.userIds` get an automatic refresh;
+ * everyone else refreshes the card manually.
+ * @param card - Adaptive card content
+ * @param userId - ID of the signed-in user, if known
+ * @returns boolean - True if the refresh should run automatically
+ */
+export function isAutoRefreshUser(card: any, userId: string | null): boolean {
+  const userIds = card?.refresh?.userIds;
+  return (
+    !!userId &&
+    Array.isArray(userIds) &&
+    userIds.some((id: any) => String(id).toLowerCase() === userId.toLowerCase())
+  );
+}
@@ -4,6 +4,48 @@
  * activities, and message requests used throughout the application.
  */
 
+/**
+ * Available agent transports: a live Copilot Studio agent or a local scripted agent
+ */
+export type AgentTransportType = "copilotStudio" | "scripted";
+
+/**
+ * Interactive sign-in methods: a popup window or a full-page redirect
+ */
+export type AuthMode = "popup" | "redirect";
+
+/**
+ * Microsoft clouds an agent can be hosted in: commercial, US government or China
+ */
+export type AgentCloud = "public" | "gcc" | "gccHigh" | "dod" | "china";
+
+/**
+ * Ways to locate a Copilot Studio agent: environment ID plus schema name, or a direct-connect URL
+ */
+export type ConnectionMode = "environment" | "directConnect";
+
+/**
+ * Retry policy for transient agent failures: network errors, throttling and 5xx responses
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+}
+
+/**
+ * Failed attempt that was retried, as recorded in the response metadata
+ */
+export interface RetryAttempt {
+  attempt: number;
+  error: string;
+  status?: number;
+  delayMs: number;
+  retryAfter: boolean;
+  timestamp: string;
+}
+
 /**
  * Agent configuration interface containing authentication and connection details
  */
@@ -12,6 +54,38 @@ export interface AgentConfig {
   tenantId: string;
   botIdentifier: string;
   environmentId: string;
+  transportType?: AgentTransportType;
+  scenarioId?: string;
+  authMode?: AuthMode;
+  tokenRefreshSkewSeconds?: number;
+  cloud?: AgentCloud;
+  authority?: string;
+  scopes?: string[];
+  connectionMode?: ConnectionMode;
+  directConnectUrl?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+/**
+ * Lifecycle state of the connection between AgentClient and the agent
+ */
+export type ConnectionState = "idle" | "connecting" | "connected" | "expired";
+
+/**
+ * Signed-in account as shown in the account switcher
+ */
+export interface SignedInAccount {
+  homeAccountId: string;
+  username: string;
+  name?: string;
+}
+
+/**
+ * Signed-in accounts and the account currently used for requests
+ */
+export interface AccountState {
+  accounts: SignedInAccount[];
+  activeAccountId: string | null;
 }
 
 /**
@@ -46,7 +120,201 @@ export interface AgentResponse {
     hasText?: boolean;
     hasSuggestedActions?: boolean;
     fullActivities?: any[];
+    timeline?: ActivityTimelineEntry[];
+    isStreaming?: boolean;
+    aborted?: boolean;
+    locale?: string;
+    attempts?: number;
+    retries?: RetryAttempt[];
+    retryPolicy?: RetryPolicy;
+  };
+}
+
+/**
+ * Activity received during a turn, in arrival order
+ */
+export interface ActivityTimelineEntry {
+  type: string;
+  name?: string;
+  timestamp: string; // When the activity arrived; imported turns use the activity's own timestamp
+  offsetMs: number; // Time since the turn started
+}
+
+/**
+ * Callbacks for receiving agent activities incrementally while a turn is in progress
+ */
+export interface AgentStreamHandlers {
+  onActivity?: (activity: any) => void;
+  onUpdate?: (response: AgentResponse) => void;
+}
+
+/**
+ * Single turn of the conversation history: the user message and the agent's response
+ *
+ * `activity` is set when the user sent an event, invoke, or message with a value
+ * instead of plain text; `message` then holds a short description of it.
+ * `conversationStart` marks a turn that started the conversation without a user
+ * message; its response holds the agent's greeting activities.
+ */
+export interface ConversationTurn {
+  message: string;
+  activity?: OutgoingActivity;
+  conversationStart?: {
+    emitStartEvent: boolean; // Whether the agent received a start event
   };
+  response: AgentResponse;
+  timestamp: string;
+}
+
+/**
+ * Conversation saved in the browser so it survives page reloads
+ */
+export interface StoredSession {
+  id: string;
+  title: string;
+  history: ConversationTurn[];
+  createdAt: string;
+  updatedAt: string;
+  isOpen: boolean;
+  locale?: string;
+}
+
+/**
+ * Limits applied to saved sessions; older sessions are removed first
+ */
+export interface SessionRetention {
+  maxSessions: number;
+  maxAgeDays: number;
+}
+
+/**
+ * How remote images in agent output are handled: loaded, hidden until the user
+ * loads them, or never loaded
+ */
+export type RemoteImagePolicy = "allow" | "placeholder" | "block";
+
+/**
+ * Rules for links and remote resources in agent output
+ */
+export interface ContentPolicy {
+  allowedDomains: string[]; // Domains opened without confirmation; subdomains are included
+  remoteImages: RemoteImagePolicy; // Applies to images outside the allowed domains
+}
+
+/**
+ * Named Adaptive Card host configs, matching the hosts cards are shown in
+ */
+export type HostConfigThemeId =
+  | "copilotStudio"
+  | "teamsLight"
+  | "teamsDark"
+  | "teamsHighContrast"
+  | "outlook"
+  | "custom";
+
+/**
+ * Host config chosen for rendering Adaptive Cards
+ */
+export interface CardHostSettings {
+  themeId: HostConfigThemeId; // Host config cards are rendered with
+  customHostConfig: string; // JSON of the host config used by the "custom" theme
+}
+
+/**
+ * Independent conversation with the agent, shown as a tab
+ */
+export interface Conversation {
+  id: string;
+  title: string;
+  history: ConversationTurn[];
+  response: AgentResponse | null;
+  lastMessage: string;
+  isPending: boolean;
+  createdAt: string;
+  locale?: string;
+}
+
+/**
+ * Recorded conversation marked as the expected behaviour of an agent
+ */
+export interface RegressionBaseline {
+  id: string;
+  name: string;
+  history: ConversationTurn[];
+  createdAt: string;
+}
+
+/**
+ * Part of a turn compared between a baseline and a replay
+ */
+export type RegressionField =
+  | "text"
+  | "adaptiveCards"
+  | "suggestedActions"
+  | "activitiesCount";
+
+/**
+ * Difference found in one field of a replayed turn
+ */
+export interface RegressionDifference {
+  field: RegressionField;
+  expected: string;
+  actual: string;
+}
+
+/**
+ * Outcome of replaying one baseline turn
+ */
+export interface RegressionTurnResult {
+  index: number;
+  message: string;
+  status: "passed" | "failed" | "skipped" | "error";
+  differences: RegressionDifference[];
+  response: AgentResponse | null;
+  note?: string;
+}
+
+/**
+ * Report of a baseline replay against one configuration
+ */
+export interface RegressionRunReport {
+  baselineId: string;
+  baselineName: string;
+  target: string;
+  startedAt: string;
+  finishedAt?: string;
+  turns: RegressionTurnResult[];
+  aborted?: boolean;
+}
+
+/**
+ * Utterance sent by a batch run, with the expectations its response must meet
+ */
+export interface BatchUtterance {
+  text: string;
+  expectTextContains?: string;
+  expectTextRegex?: string;
+  expectCard?: boolean;
+  expectSuggestedAction?: string;
+  maxLatencyMs?: number;
+  locale?: string;
+}
+
+/**
+ * Whether batch utterances each start a new conversation or share one
+ */
+export type BatchConversationMode = "fresh" | "shared";
+
+/**
+ * Outcome of one batch utterance
+ */
+export interface BatchResult {
+  index: number;
+  utterance: BatchUtterance;
+  status: "passed" | "failed" | "error";
+  failures: string[];
+  duration: number;
+  response: AgentResponse;
 }
 
 /**
@@ -60,9 +328,44 @@ export interface Activity {
     id: string;
     name?: string;
   };
+  name?: string;
   text?: string;
   value?: any;
   channelData?: any;
+  attachments?: ActivityAttachment[];
+  locale?: string;
+}
+
+/**
+ * File or card attached to an activity; uploaded files travel as data URLs
+ */
+export interface ActivityAttachment {
+  contentType: string;
+  contentUrl?: string;
+  content?: any;
+  name?: string;
+}
+
+/**
+ * Activity composed by the user; the channel assigns its ID, timestamp and sender
+ */
+export type OutgoingActivity = Omit<Activity, "id" | "timestamp" | "from">;
+
+/**
+ * Adaptive Card `Action.Execute` to run, from a clicked button or a card's refresh block
+ */
+export interface CardExecuteAction {
+  id?: string;
+  verb?: string;
+  data?: any; // Action data, merged with the card's input values for clicked buttons
+}
+
+/**
+ * Outcome of an `adaptiveCard/action` invoke
+ */
+export interface CardInvokeResult {
+  card?: any; // Card that replaces the one the action ran on
+  message?: string; // Message returned instead of a new card
 }
 
 /**
@@ -74,3 +377,39 @@ export interface MessageRequest {
   conversationId?: string;
   locale?: string;
 }
+
+/**
+ * Reply activity produced by a scripted agent, in Bot Framework activity shape
+ */
+export interface ScriptedReply {
+  type?: string;
+  text?: string;
+  textFormat?: string;
+  value?: any;
+  attachments?: any[];
+  suggestedActions?: {
+    actions: any[];
+  };
+  delayMs?: number;
+}
+
+/**
+ * Scripted agent turn returning canned replies when a user message matches
+ */
+export interface ScriptedTurn {
+  match: string;
+  replies: ScriptedReply[];
+}
+
+/**
+ * Scenario driving the in-memory scripted agent
+ */
+export interface ScriptedScenario {
+  id: string;
+  name: string;
+  description?: string;
+  defaultDelayMs?: number;
+  greeting?: ScriptedReply[]; // Sent when a conversation starts with a start event
+  turns: ScriptedTurn[];
+  fallback: ScriptedReply[];
+}